@@ -0,0 +1,395 @@
+import type { RepoSummary } from './openai-agent.js';
+import type { MSTeamsConfig, SlackConfig } from './config.js';
+import { describeRelease, getNewsletterTitle, getPeriodName, getPullRequestSections } from './newsletter-generator.js';
+import type { ReportingWindow } from './report-window.js';
+
+// Slack limits: 50 blocks per message, 3000 characters per section, 150 per header
+const MAX_BLOCKS_PER_MESSAGE = 50;
+const MAX_SECTION_TEXT = 3000;
+const MAX_HEADER_TEXT = 150;
+
+// Teams rejects webhook payloads over ~28KB; leave headroom for the message envelope
+const MAX_TEAMS_CARD_BYTES = 24000;
+// Per text block, so the header and one repo summary always fit in a card, even in multi-byte text
+const MAX_TEAMS_TEXT = 3000;
+
+// The Block Kit blocks the team sections are built from
+export interface SlackBlock {
+  type: 'header' | 'section' | 'context' | 'divider';
+  text?: SlackText;
+  elements?: SlackText[];
+}
+
+interface SlackText {
+  type: 'plain_text' | 'mrkdwn';
+  text: string;
+}
+
+export interface SlackMessage {
+  text: string;
+  blocks: SlackBlock[];
+}
+
+// The Adaptive Card elements the team sections are built from
+export interface AdaptiveCardElement {
+  type: 'TextBlock' | 'Container';
+  text?: string;
+  wrap?: boolean;
+  size?: 'Medium' | 'Large';
+  weight?: 'Bolder';
+  color?: 'Attention';
+  spacing?: 'None' | 'Small' | 'Medium' | 'Large';
+  separator?: boolean;
+  isSubtle?: boolean;
+  // Containers only
+  style?: 'attention';
+  bleed?: boolean;
+  items?: AdaptiveCardElement[];
+}
+
+// An incoming webhook message carrying one Adaptive Card
+export interface TeamsCardMessage {
+  type: 'message';
+  attachments: Array<{
+    contentType: 'application/vnd.microsoft.card.adaptive';
+    content: {
+      $schema: string;
+      type: 'AdaptiveCard';
+      version: string;
+      msteams: { width: 'Full' };
+      body: AdaptiveCardElement[];
+    };
+  }>;
+}
+
+export function escapeSlackText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length <= maxLength ? value : value.substring(0, maxLength - 1) + '…';
+}
+
+function section(text: string): SlackBlock {
+  return { type: 'section', text: { type: 'mrkdwn', text: truncate(text, MAX_SECTION_TEXT) } };
+}
+
+/**
+ * Pack lines into as few section blocks as possible without exceeding the section limit
+ */
+function sectionsFromLines(lines: string[]): SlackBlock[] {
+  const blocks: SlackBlock[] = [];
+  let current = '';
+  for (const line of lines) {
+    if (current && current.length + line.length + 1 > MAX_SECTION_TEXT) {
+      blocks.push(section(current));
+      current = '';
+    }
+    current = current ? `${current}\n${line}` : line;
+  }
+  if (current) {
+    blocks.push(section(current));
+  }
+  return blocks;
+}
+
+function repoBlocks(repo: RepoSummary): SlackBlock[] {
+  const blocks: SlackBlock[] = [section(`*${escapeSlackText(repo.repoName)}*\n${escapeSlackText(repo.overallSummary)}`)];
+
+  if (repo.breakingChanges.length > 0) {
+    const lines = [':rotating_light: *High-Risk/Breaking Changes*'];
+    for (const breakingChange of repo.breakingChanges) {
+      const pr = repo.pullRequests.find((p) => p.number === breakingChange.prNumber);
+      const label = pr ? `<${pr.url}|PR #${breakingChange.prNumber}>` : `PR #${breakingChange.prNumber}`;
+      lines.push(`• ${label}: ${escapeSlackText(breakingChange.description)}`);
+    }
+    blocks.push(...sectionsFromLines(lines));
+  }
+
+  if (repo.releases && repo.releases.length > 0) {
+    const lines = ['*Releases*'];
+    for (const release of repo.releases) {
+      const notes = release.notes ? ` — ${escapeSlackText(release.notes)}` : '';
+      lines.push(`• <${release.url}|${escapeSlackText(describeRelease(release))}> (${release.date})${notes}`);
+    }
+    blocks.push(...sectionsFromLines(lines));
+  }
+
+  for (const prSection of getPullRequestSections(repo)) {
+    const lines = [`*${prSection.title}*`];
+    for (const pr of prSection.pullRequests) {
+      const summary = pr.summary ? ` — ${escapeSlackText(pr.summary)}` : '';
+      const review = pr.reviewRequested ? ', awaiting review' : '';
+      lines.push(`• <${pr.url}|#${pr.number} ${escapeSlackText(pr.title)}> (${escapeSlackText(pr.author)}${review})${summary}`);
+    }
+    blocks.push(...sectionsFromLines(lines));
+  }
+
+  blocks.push({ type: 'divider' });
+  return blocks;
+}
+
+/**
+ * Build the Block Kit messages for one team's section. The first message carries
+ * the header; repos that do not fit are moved to follow-up messages.
+ */
+export function buildSlackMessages(
+  teamName: string,
+  repos: RepoSummary[],
+  window: ReportingWindow,
+  highlights?: string
+): SlackMessage[] {
+  const title = `${teamName} - ${getNewsletterTitle(window)}`;
+  const prCount = repos.reduce((sum, repo) => sum + repo.pullRequests.length, 0);
+  const breakingCount = repos.reduce((sum, repo) => sum + repo.breakingChanges.length, 0);
+
+  const headerBlocks: SlackBlock[] = [
+    { type: 'header', text: { type: 'plain_text', text: truncate(title, MAX_HEADER_TEXT) } },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `${repos.length} repositories with ${prCount} pull requests` }]
+    }
+  ];
+  if (highlights) {
+    headerBlocks.push(section(`*Highlights:* ${escapeSlackText(highlights)}`));
+  }
+  if (breakingCount > 0) {
+    headerBlocks.push(
+      section(`:rotating_light: *${breakingCount} high-risk/breaking change(s) this ${getPeriodName(window)}* — see below`)
+    );
+  }
+
+  const messages: SlackMessage[] = [];
+  let blocks = headerBlocks;
+
+  for (const repo of repos) {
+    let repoBlockList = repoBlocks(repo);
+    if (repoBlockList.length > MAX_BLOCKS_PER_MESSAGE) {
+      repoBlockList = [
+        ...repoBlockList.slice(0, MAX_BLOCKS_PER_MESSAGE - 2),
+        section('_…more pull requests omitted_'),
+        { type: 'divider' }
+      ];
+    }
+
+    if (blocks.length + repoBlockList.length > MAX_BLOCKS_PER_MESSAGE) {
+      messages.push({ text: title, blocks });
+      blocks = [];
+    }
+    blocks.push(...repoBlockList);
+  }
+
+  if (blocks.length > 0) {
+    messages.push({ text: messages.length === 0 ? title : `${title} (continued)`, blocks });
+  }
+
+  return messages;
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<string> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json; charset=utf-8', ...headers },
+    body: JSON.stringify(body)
+  });
+  const responseText = await response.text();
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${responseText}`);
+  }
+  return responseText;
+}
+
+/**
+ * Post the messages to Slack. With a bot token the first message starts a thread
+ * and the rest are posted as replies; webhooks cannot thread, so a webhook posts
+ * them as separate messages one after another.
+ */
+export async function publishToSlack(slackConfig: SlackConfig, messages: SlackMessage[]): Promise<void> {
+  if (slackConfig.botToken && slackConfig.channel) {
+    let threadTs: string | undefined;
+    for (const message of messages) {
+      const responseText = await postJson(
+        'https://slack.com/api/chat.postMessage',
+        { channel: slackConfig.channel, thread_ts: threadTs, ...message },
+        { Authorization: `Bearer ${slackConfig.botToken}` }
+      );
+      const result = JSON.parse(responseText);
+      if (!result.ok) {
+        throw new Error(`Slack API error: ${result.error}`);
+      }
+      threadTs = threadTs || result.ts;
+    }
+    return;
+  }
+
+  if (!slackConfig.webhookUrl) {
+    throw new Error('Slack config needs a webhookUrl or a botToken and channel');
+  }
+  for (const message of messages) {
+    await postJson(slackConfig.webhookUrl, message);
+  }
+}
+
+function cardPayload(body: AdaptiveCardElement[]): TeamsCardMessage {
+  return {
+    type: 'message',
+    attachments: [
+      {
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          msteams: { width: 'Full' },
+          body
+        }
+      }
+    ]
+  };
+}
+
+function payloadBytes(body: AdaptiveCardElement[]): number {
+  return Buffer.byteLength(JSON.stringify(cardPayload(body)), 'utf-8');
+}
+
+function textBlock(text: string, options: Omit<AdaptiveCardElement, 'type' | 'text'> = {}): AdaptiveCardElement {
+  return { type: 'TextBlock', text: truncate(text, MAX_TEAMS_TEXT), wrap: true, ...options };
+}
+
+function omittedBlock(count: number): AdaptiveCardElement {
+  return textBlock(`…${count} item(s) omitted, see the full newsletter`, { isSubtle: true, spacing: 'Small' });
+}
+
+// Breaking changes, releases and PRs listed by an element; headings list none
+function countItems(element: AdaptiveCardElement): number {
+  if (element.type === 'Container') {
+    return (element.items || []).length - 1;
+  }
+  return element.text?.startsWith('- ') ? 1 : 0;
+}
+
+/**
+ * Drop a repo's trailing items until it fits in the card after the given
+ * elements, keeping its name and summary and noting how many were left out
+ */
+function fitRepoElements(card: AdaptiveCardElement[], elements: AdaptiveCardElement[]): AdaptiveCardElement[] {
+  let kept = elements;
+  let omitted = 0;
+  const fits = () =>
+    payloadBytes([...card, ...kept, ...(omitted > 0 ? [omittedBlock(omitted)] : [])]) <= MAX_TEAMS_CARD_BYTES;
+  while (kept.length > 2 && !fits()) {
+    omitted += countItems(kept[kept.length - 1]);
+    kept = kept.slice(0, -1);
+  }
+  if (omitted === 0) {
+    return kept;
+  }
+  // Leave no section heading without its items
+  while (kept.length > 2 && countItems(kept[kept.length - 1]) === 0) {
+    kept = kept.slice(0, -1);
+  }
+  return [...kept, omittedBlock(omitted)];
+}
+
+function repoCardElements(repo: RepoSummary): AdaptiveCardElement[] {
+  const elements: AdaptiveCardElement[] = [
+    textBlock(repo.repoName, { size: 'Medium', weight: 'Bolder', separator: true, spacing: 'Large' }),
+    textBlock(repo.overallSummary)
+  ];
+
+  if (repo.breakingChanges.length > 0) {
+    const items = repo.breakingChanges.map((breakingChange) => {
+      const pr = repo.pullRequests.find((p) => p.number === breakingChange.prNumber);
+      const label = pr ? `[PR #${breakingChange.prNumber}](${pr.url})` : `PR #${breakingChange.prNumber}`;
+      return textBlock(`- ${label}: ${breakingChange.description}`, { spacing: 'Small' });
+    });
+    elements.push({
+      type: 'Container',
+      style: 'attention',
+      bleed: true,
+      items: [textBlock('⚠ High-Risk/Breaking Changes', { weight: 'Bolder', color: 'Attention' }), ...items]
+    });
+  }
+
+  if (repo.releases && repo.releases.length > 0) {
+    elements.push(textBlock('Releases', { weight: 'Bolder', spacing: 'Medium' }));
+    for (const release of repo.releases) {
+      const notes = release.notes ? ` — ${release.notes}` : '';
+      elements.push(
+        textBlock(`- [${describeRelease(release)}](${release.url}) (${release.date})${notes}`, { spacing: 'Small' })
+      );
+    }
+  }
+
+  for (const section of getPullRequestSections(repo)) {
+    elements.push(textBlock(section.title, { weight: 'Bolder', spacing: 'Medium' }));
+    for (const pr of section.pullRequests) {
+      const summary = pr.summary ? ` — ${pr.summary}` : '';
+      const review = pr.reviewRequested ? ', awaiting review' : '';
+      elements.push(
+        textBlock(`- [#${pr.number} ${pr.title}](${pr.url}) (${pr.author}${review})${summary}`, { spacing: 'Small' })
+      );
+    }
+  }
+
+  return elements;
+}
+
+/**
+ * Build the Adaptive Card payloads for one team's section, splitting repos
+ * across several cards when a single card would exceed the payload limit
+ */
+export function buildTeamsCards(
+  teamName: string,
+  repos: RepoSummary[],
+  window: ReportingWindow,
+  highlights?: string
+): TeamsCardMessage[] {
+  const title = `${teamName} - ${getNewsletterTitle(window)}`;
+  const prCount = repos.reduce((sum, repo) => sum + repo.pullRequests.length, 0);
+  const breakingCount = repos.reduce((sum, repo) => sum + repo.breakingChanges.length, 0);
+
+  const headerElements: AdaptiveCardElement[] = [
+    textBlock(title, { size: 'Large', weight: 'Bolder' }),
+    textBlock(`${repos.length} repositories with ${prCount} pull requests`, { isSubtle: true, spacing: 'None' })
+  ];
+  if (highlights) {
+    headerElements.push(textBlock(`**Highlights:** ${highlights}`));
+  }
+  if (breakingCount > 0) {
+    headerElements.push(
+      textBlock(`⚠ ${breakingCount} high-risk/breaking change(s) this ${getPeriodName(window)} — see below`, {
+        weight: 'Bolder',
+        color: 'Attention'
+      })
+    );
+  }
+
+  const cards: TeamsCardMessage[] = [];
+  let body = headerElements;
+  let hasRepos = false;
+
+  for (const repo of repos) {
+    const elements = repoCardElements(repo);
+    // A repo that does not fit starts a new card, but the header never goes out on its own
+    if (hasRepos && payloadBytes([...body, ...elements]) > MAX_TEAMS_CARD_BYTES) {
+      cards.push(cardPayload(body));
+      body = [textBlock(`${title} (continued)`, { weight: 'Bolder', isSubtle: true })];
+    }
+    // A single oversized repo is trimmed item by item until it fits
+    body.push(...fitRepoElements(body, elements));
+    hasRepos = true;
+  }
+
+  cards.push(cardPayload(body));
+  return cards;
+}
+
+/**
+ * Post the cards to a Teams incoming webhook in order
+ */
+export async function publishToTeams(teamsConfig: MSTeamsConfig, cards: TeamsCardMessage[]): Promise<void> {
+  for (const card of cards) {
+    await postJson(teamsConfig.webhookUrl, card);
+  }
+}
@@ -0,0 +1,219 @@
+import { parseArgs } from "util";
+import { endOfDay, isValid, parseISO, startOfDay } from "date-fns";
+import { OUTPUT_FORMATS } from "./config.js";
+import type { OutputFormat } from "./config.js";
+
+export type CliCommand =
+  | "generate"
+  | "discover"
+  | "explain"
+  | "validate-config"
+  | "render"
+  | "history";
+
+export interface CliOptions {
+  command: CliCommand;
+  configPath?: string;
+  profile?: string;
+  // As given; turned into dates by resolveDateOptions
+  since?: string;
+  until?: string;
+  teams?: string[];
+  repos?: string[];
+  output?: string;
+  formats?: OutputFormat[];
+  concurrency?: number;
+  input?: string;
+  edition?: string;
+  saveData?: string;
+  record?: string;
+  replay?: string;
+  noCache: boolean;
+  clearCache: boolean;
+  send: boolean;
+  post: boolean;
+  dryRun: boolean;
+  help: boolean;
+}
+
+const COMMANDS: CliCommand[] = [
+  "generate",
+  "discover",
+  "explain",
+  "validate-config",
+  "render",
+  "history",
+];
+
+export const USAGE = `Usage: newsletter [command] [options]
+
+Commands:
+  generate          Discover active repos, summarize them and write the newsletter (default)
+  discover          List repositories with PR or release activity in the timeframe
+  explain           Show which team rules match each configured repo (or each of --repos)
+  validate-config   Validate the configuration file and exit
+  render            Render a newsletter from data saved with --save-data or from the archive
+  history           List the editions in the archive
+
+Options:
+  -c, --config <path>     Path to the JSON or YAML config file (default: ./config.json, ./config.yaml or ./config.yml)
+  -p, --profile <name>    Config profile to apply, e.g. weekly-eng
+      --since <date>      Start of the window (YYYY-MM-DD or ISO timestamp)
+      --until <date>      End of the window (YYYY-MM-DD or ISO timestamp, default: now)
+      --teams <names>     Comma-separated list of teams to include
+      --repos <names>     Comma-separated list of repos (name or owner/repo) to use instead of the config
+  -o, --output <path>     Output file for the newsletter
+  -f, --format <formats>  Comma-separated output formats: markdown, html, text (default: from config)
+  -i, --input <path>      Data file to render (render only)
+      --edition <ref>     Archived edition to render: "latest", the end date (YYYY-MM-DD) or an id from history
+      --save-data <path>  Also write the structured summaries as JSON (generate only)
+  -j, --concurrency <n>   Number of repositories to process at a time (default: from config)
+      --record <dir>      Save every GitHub MCP and LLM request and response to a fixture directory
+      --replay <dir>      Serve GitHub MCP and LLM responses from a recorded fixture directory, offline
+      --no-cache          Ignore cached PR summaries and details for this run
+      --clear-cache       Delete the cache before running
+      --send              Email the newsletter to the distribution lists in the config
+      --post              Post each team's section to its Slack and Microsoft Teams channels
+      --dry-run           Print the newsletter instead of writing, sending or posting it
+  -h, --help              Show this help`;
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  const items = value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+  return items.length > 0 ? items : undefined;
+}
+
+function parseDateOption(
+  name: string,
+  value: string | undefined,
+  boundary: "start" | "end"
+): Date | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseISO(value);
+  if (!isValid(parsed)) {
+    throw new Error(`Invalid --${name} date: ${value}`);
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return boundary === "start" ? startOfDay(parsed) : endOfDay(parsed);
+  }
+  return parsed;
+}
+
+/**
+ * The --since/--until dates. Date-only values are expanded to the start or
+ * end of that day in local time, so that --until is inclusive; call this
+ * once the configured timezone is in effect.
+ */
+export function resolveDateOptions(
+  options: Pick<CliOptions, "since" | "until">
+): {
+  since?: Date;
+  until?: Date;
+} {
+  const since = parseDateOption("since", options.since, "start");
+  const until = parseDateOption("until", options.until, "end");
+  if (since && until && since > until) {
+    throw new Error("--since must be before --until");
+  }
+  return { since, until };
+}
+
+export function parseCliArgs(argv: string[]): CliOptions {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      config: { type: "string", short: "c" },
+      profile: { type: "string", short: "p" },
+      since: { type: "string" },
+      until: { type: "string" },
+      teams: { type: "string" },
+      repos: { type: "string" },
+      output: { type: "string", short: "o" },
+      format: { type: "string", short: "f" },
+      concurrency: { type: "string", short: "j" },
+      input: { type: "string", short: "i" },
+      edition: { type: "string" },
+      "save-data": { type: "string" },
+      record: { type: "string" },
+      replay: { type: "string" },
+      "no-cache": { type: "boolean", default: false },
+      "clear-cache": { type: "boolean", default: false },
+      send: { type: "boolean", default: false },
+      post: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (positionals.length > 1) {
+    throw new Error(`Unexpected arguments: ${positionals.slice(1).join(" ")}`);
+  }
+
+  const command = (positionals[0] || "generate") as CliCommand;
+  if (!COMMANDS.includes(command)) {
+    throw new Error(
+      `Unknown command "${command}". Expected one of: ${COMMANDS.join(", ")}`
+    );
+  }
+
+  // Checked here so that a typo is reported with the usage
+  resolveDateOptions({ since: values.since, until: values.until });
+
+  const formats = parseList(values.format) as OutputFormat[] | undefined;
+  const unknownFormats = (formats || []).filter(
+    (format) => !OUTPUT_FORMATS.includes(format)
+  );
+  if (unknownFormats.length > 0) {
+    throw new Error(
+      `Unknown format(s): ${unknownFormats.join(", ")}. Expected: ${OUTPUT_FORMATS.join(", ")}`
+    );
+  }
+
+  const concurrency =
+    values.concurrency === undefined ? undefined : Number(values.concurrency);
+  if (
+    concurrency !== undefined &&
+    (!Number.isInteger(concurrency) || concurrency < 1)
+  ) {
+    throw new Error(`Invalid --concurrency: ${values.concurrency}`);
+  }
+
+  if (values.record && values.replay) {
+    throw new Error("--record and --replay cannot be used together");
+  }
+
+  if (command === "render" && !values.input && !values.edition && !values.help) {
+    throw new Error("render requires --input <path> or --edition <ref>");
+  }
+  if (values.input && values.edition) {
+    throw new Error("--input and --edition cannot be used together");
+  }
+
+  return {
+    command,
+    configPath: values.config,
+    profile: values.profile,
+    since: values.since,
+    until: values.until,
+    teams: parseList(values.teams),
+    repos: parseList(values.repos),
+    output: values.output,
+    formats: formats ? Array.from(new Set(formats)) : undefined,
+    concurrency,
+    input: values.input,
+    edition: values.edition,
+    saveData: values["save-data"],
+    record: values.record,
+    replay: values.replay,
+    noCache: values["no-cache"] ?? false,
+    clearCache: values["clear-cache"] ?? false,
+    send: values.send ?? false,
+    post: values.post ?? false,
+    dryRun: values["dry-run"] ?? false,
+    help: values.help ?? false,
+  };
+}
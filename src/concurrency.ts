@@ -0,0 +1,98 @@
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run `worker` over `items` with at most `concurrency` in flight, returning
+ * results in the same order as the items. Workers should handle their own
+ * errors; a rejected worker rejects the whole run.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runners = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length)) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await worker(items[index], index);
+      }
+    }
+  );
+
+  await Promise.all(runners);
+  return results;
+}
+
+/**
+ * Parse the reset durations OpenAI sends in rate-limit headers, such as
+ * "20ms", "1s" or "6m0s", into milliseconds
+ */
+export function parseResetDuration(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  let total = 0;
+  let matched = false;
+  for (const [, amount, unit] of value.matchAll(/([\d.]+)(ms|h|m|s)/g)) {
+    matched = true;
+    const multiplier = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 }[unit as "ms" | "s" | "m" | "h"];
+    total += parseFloat(amount) * multiplier;
+  }
+  return matched ? Math.ceil(total) : undefined;
+}
+
+/**
+ * Shared throttle for one API: keeps requests within a requests-per-minute
+ * budget and pauses every caller when the API reports its limit is exhausted
+ */
+export class RateLimiter {
+  private name: string;
+  private requestsPerMinute: number | undefined;
+  private requestTimes: number[] = [];
+  private pausedUntil = 0;
+
+  constructor(name: string, requestsPerMinute?: number) {
+    this.name = name;
+    this.requestsPerMinute = requestsPerMinute;
+  }
+
+  async acquire(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      let waitUntil = this.pausedUntil;
+
+      if (this.requestsPerMinute) {
+        this.requestTimes = this.requestTimes.filter((time) => time > now - 60 * 1000);
+        if (this.requestTimes.length >= this.requestsPerMinute) {
+          waitUntil = Math.max(waitUntil, this.requestTimes[0] + 60 * 1000);
+        }
+      }
+
+      if (waitUntil <= now) {
+        this.requestTimes.push(now);
+        return;
+      }
+      await sleep(waitUntil - now);
+    }
+  }
+
+  pauseFor(ms: number, reason: string): void {
+    const until = Date.now() + ms;
+    if (until > this.pausedUntil) {
+      this.pausedUntil = until;
+      console.error(`  ⏳ ${this.name} ${reason}, pausing for ${Math.ceil(ms / 1000)}s`);
+    }
+  }
+
+  /**
+   * Pause once the remaining requests or tokens reported by the API run out
+   */
+  updateFromHeaders(remaining: number | undefined, resetMs: number | undefined, kind: string): void {
+    if (remaining !== undefined && remaining <= 0 && resetMs) {
+      this.pauseFor(resetMs, `${kind} limit reached`);
+    }
+  }
+}
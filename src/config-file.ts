@@ -0,0 +1,197 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, extname, join, resolve } from 'path';
+import type { ErrorObject } from 'ajv';
+import { parse as parseYaml } from 'yaml';
+
+// Looked for in the working directory when no config file is given, in this order
+const DEFAULT_CONFIG_FILES = ['config.json', 'config.yaml', 'config.yml'];
+
+// ${NAME}, or ${NAME:-default} with a fallback for when NAME is not set
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+/**
+ * The config file to load: the given path, or the first default file that
+ * exists in the working directory
+ */
+export function findConfigFile(configPath?: string): string {
+  if (configPath) {
+    return configPath;
+  }
+  const found = DEFAULT_CONFIG_FILES.map((name) => join(process.cwd(), name)).find((path) => existsSync(path));
+  if (!found) {
+    throw new Error(`No config file found; create one of ${DEFAULT_CONFIG_FILES.join(', ')} or pass --config`);
+  }
+  return found;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// YAML for .yaml and .yml files, JSON otherwise
+function parseConfigFile(path: string): Record<string, any> {
+  const content = readFileSync(path, 'utf-8');
+  let parsed: unknown;
+  try {
+    parsed = ['.yaml', '.yml'].includes(extname(path).toLowerCase()) ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Could not parse ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isObject(parsed)) {
+    throw new Error(`Invalid config in ${path}: expected an object at the top level`);
+  }
+  return parsed;
+}
+
+/**
+ * Apply `override` to `base` like a JSON merge patch: objects are merged key
+ * by key, null removes a key, and any other value, arrays included, replaces
+ * what was there
+ */
+export function mergeConfig(base: any, override: any): any {
+  if (!isObject(base) || !isObject(override)) {
+    return override;
+  }
+  const merged: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === null) {
+      delete merged[key];
+    } else {
+      merged[key] = mergeConfig(base[key], value);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Read a config file together with the files it extends. Paths in `extends`
+ * are relative to the file naming them; later files win over earlier ones,
+ * and the file itself over everything it extends.
+ */
+export function readConfigFile(path: string, chain: string[] = []): Record<string, any> {
+  const absolute = resolve(path);
+  if (chain.includes(absolute)) {
+    throw new Error(`Config files extend each other in a cycle: ${[...chain, absolute].join(' -> ')}`);
+  }
+
+  const { extends: extended, ...config } = parseConfigFile(absolute);
+  const parents: unknown[] = extended === undefined ? [] : Array.isArray(extended) ? extended : [extended];
+  if (parents.some((parent) => typeof parent !== 'string')) {
+    throw new Error(`Invalid config in ${absolute}: extends must be a path or a list of paths`);
+  }
+
+  return [
+    ...(parents as string[]).map((parent) => readConfigFile(resolve(dirname(absolute), parent), [...chain, absolute])),
+    config
+  ].reduce(mergeConfig, {});
+}
+
+/**
+ * Apply the named profile to the config, dropping the `profiles` section
+ */
+export function applyProfile(rawConfig: Record<string, any>, profile?: string): Record<string, any> {
+  const { profiles = {}, ...config } = rawConfig;
+  if (!isObject(profiles) || Object.values(profiles).some((value) => !isObject(value))) {
+    throw new Error('Invalid config: profiles must map each profile name to an object of overrides');
+  }
+  if (!profile) {
+    return config;
+  }
+  if (!(profile in profiles)) {
+    const names = Object.keys(profiles);
+    throw new Error(
+      `Unknown profile "${profile}". ${names.length > 0 ? `Configured profiles: ${names.join(', ')}` : 'No profiles are configured'}`
+    );
+  }
+  return mergeConfig(config, profiles[profile]);
+}
+
+// "teams.Core.repos[0]", or "config" for the whole file
+function formatPath(segments: string[]): string {
+  const path = segments
+    .map((segment, index) => {
+      if (/^\d+$/.test(segment)) return `[${segment}]`;
+      if (/^[A-Za-z_$][\w$-]*$/.test(segment)) return index === 0 ? segment : `.${segment}`;
+      return `[${JSON.stringify(segment)}]`;
+    })
+    .join('');
+  return path || 'config';
+}
+
+/**
+ * Replace ${NAME} references in every string of the config with the
+ * variable's value. A variable that is not set and has no default is an
+ * error, unless `offline` is set, where it is left empty.
+ */
+export function interpolateEnv(value: any, offline: boolean, segments: string[] = []): any {
+  if (typeof value === 'string') {
+    return value.replace(ENV_REFERENCE, (_reference, name: string, fallback: string | undefined) => {
+      const envValue = process.env[name];
+      if (envValue !== undefined && envValue !== '') return envValue;
+      if (fallback !== undefined) return fallback;
+      if (offline) return '';
+      throw new Error(`Environment variable ${name} is not set (used in ${formatPath(segments)})`);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateEnv(item, offline, [...segments, String(index)]));
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateEnv(item, offline, [...segments, key])])
+    );
+  }
+  return value;
+}
+
+// JSON pointers escape "~" as "~0" and "/" as "~1"
+function pointerSegments(pointer: string): string[] {
+  return pointer
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function describeError(error: ErrorObject): string {
+  const segments = pointerSegments(error.instancePath);
+  const path = formatPath(segments);
+  switch (error.keyword) {
+    case 'required':
+      return `${formatPath([...segments, error.params.missingProperty])} is required`;
+    case 'additionalProperties':
+      return `${formatPath([...segments, error.params.additionalProperty])} is not a known option`;
+    case 'enum':
+      return `${path} must be one of ${error.params.allowedValues.map((value: unknown) => JSON.stringify(value)).join(', ')}`;
+    case 'type':
+      return `${path} must be ${/^[aeiou]/.test(error.params.type) ? 'an' : 'a'} ${error.params.type}`;
+    default:
+      return `${path} ${error.message}`;
+  }
+}
+
+// Whether an error is about one of the alternatives of a failed anyOf
+function isAlternativeOf(error: ErrorObject, anyOf: ErrorObject): boolean {
+  return (
+    error.schemaPath.startsWith(`${anyOf.schemaPath}/`) &&
+    (error.instancePath === anyOf.instancePath || error.instancePath.startsWith(`${anyOf.instancePath}/`))
+  );
+}
+
+/**
+ * One line per schema violation, naming the offending setting. Violations
+ * of the alternatives of an anyOf are folded into a single line.
+ */
+export function formatValidationErrors(errors: ErrorObject[]): string[] {
+  const anyOfErrors = errors.filter((error) => error.keyword === 'anyOf');
+  const lines = errors.flatMap((error) => {
+    if (anyOfErrors.some((anyOf) => isAlternativeOf(error, anyOf))) {
+      return [];
+    }
+    if (error.keyword === 'anyOf') {
+      const alternatives = errors.filter((alternative) => isAlternativeOf(alternative, error)).map(describeError);
+      return [alternatives.length > 0 ? alternatives.join(', or ') : describeError(error)];
+    }
+    return [describeError(error)];
+  });
+  return Array.from(new Set(lines));
+}
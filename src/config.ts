@@ -1,44 +1,309 @@
-import { readFileSync } from 'fs';
 import { join } from 'path';
 import Ajv from 'ajv';
+import { applyProfile, findConfigFile, formatValidationErrors, interpolateEnv, readConfigFile } from './config-file.js';
+
+// "merged" only counts merged PRs as activity; "merged-or-closed" also counts PRs closed without merging
+export type ActivityMode = 'merged' | 'merged-or-closed';
+
+// "per-repo" checks each configured repo, "search" runs org-wide PR searches
+export type DiscoveryMode = 'per-repo' | 'search';
+
+// "mcp" goes through the GitHub MCP server, "api" calls the GitHub REST and GraphQL APIs directly
+export type GitHubBackend = 'mcp' | 'api';
+
+// A GitHub organization, or user account, whose repos the newsletter covers
+export interface GitHubOwnerConfig {
+  name: string;
+  // Token for this owner's repos; github.token unless one is given
+  token: string;
+  // A user account rather than an organization
+  user: boolean;
+}
 
 export interface GitHubConfig {
+  // The primary organization: repos listed without an owner belong to it
   organization: string;
+  // Every owner covered, the primary organization first
+  organizations: GitHubOwnerConfig[];
   timeframeDays: number;
   token: string;
+  activity: ActivityMode;
+  discovery: DiscoveryMode;
+  backend: GitHubBackend;
+  // REST API root for the "api" backend, e.g. https://github.example.com/api/v3 for GitHub Enterprise Server
+  apiUrl: string;
+  openPullRequests: OpenPullRequestsConfig;
+}
+
+// Which open PRs are listed as in flight
+export interface OpenPullRequestsConfig {
+  // Open PRs at least this old are listed
+  minAgeDays: number;
+  // Also list younger open PRs that are waiting on a requested review
+  includeReviewRequested: boolean;
+  maxPerRepo: number;
+}
+
+export interface TeamEmailConfig {
+  recipients: string[];
+  // "team" sends only this team's section, "full" sends the whole edition
+  edition?: 'team' | 'full';
+}
+
+export interface SlackConfig {
+  // Incoming webhook; overflow is posted as follow-up messages
+  webhookUrl?: string;
+  // Bot token and channel for chat.postMessage; overflow is posted as thread replies
+  botToken?: string;
+  channel?: string;
 }
 
+export interface MSTeamsConfig {
+  webhookUrl: string;
+}
+
+// PR subsections shown in a team's section; all are shown by default
+export interface TeamSectionsConfig {
+  merged?: boolean;
+  closedUnmerged?: boolean;
+  inFlight?: boolean;
+  metrics?: boolean;
+  issues?: boolean;
+}
+
+// Issue groups shown in the issues section, each with the labels counted in it, e.g. { "Bugs": ["bug"] }
+export type IssueLabelMapping = Record<string, string[]>;
+
 export interface TeamConfig {
+  // Name prefixes; "org/prefix" only matches repos of that org, a bare prefix those of every org
   prefixes?: string[];
+  // Repo names of the primary organization, or "owner/repo" for other owners
   repos?: string[];
+  // Repo name globs ("coaching-*-api", or "org/coaching-*" for one org) and regular expressions
+  globs?: string[];
+  patterns?: string[];
+  // GitHub topics; repos with any of them belong to the team
+  topics?: string[];
+  // Slug of a GitHub team of the primary organization, or "org/slug"; repos the team has access to belong to this team
+  githubTeam?: string;
+  // CODEOWNERS handles (@org/team or @user) that stand for this team, besides @org/githubTeam
+  codeowners?: string[];
+  // Repo names or globs, optionally "org/glob", never assigned to the team, even if another rule matches
+  exclude?: string[];
+  // Higher priority teams win when several teams match a repo (default 0)
+  priority?: number;
+  sections?: TeamSectionsConfig;
+  // Replaces issues.labels for the team's repos
+  issueLabels?: IssueLabelMapping;
+  email?: TeamEmailConfig;
+  slack?: SlackConfig;
+  msTeams?: MSTeamsConfig;
 }
 
 export interface TeamsConfig {
   [teamName: string]: TeamConfig;
 }
 
-export interface OpenAIConfig {
-  apiKey: string;
+// "best" puts a repo in its highest-priority matching team, "all" in every matching team
+export type TeamMatchingMode = 'best' | 'all';
+
+export type LLMProviderName = 'openai' | 'azure-openai' | 'anthropic' | 'ollama';
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'azure-openai', 'anthropic', 'ollama'];
+
+export interface LLMConfig {
+  provider: LLMProviderName;
+  // Model name; for Azure OpenAI this defaults to the deployment name
   model: string;
+  apiKey?: string;
+  // API endpoint, e.g. an Azure resource URL or a local OpenAI-compatible server
+  baseUrl?: string;
+  // Azure OpenAI deployment name and API version
+  deployment?: string;
+  apiVersion?: string;
+  // Extra HTTP headers sent with every request
+  headers?: Record<string, string>;
+  // Whether the model accepts a JSON schema for its reply; without it only JSON mode is requested
+  structuredOutputs: boolean;
+}
+
+export type OutputFormat = 'markdown' | 'html' | 'text';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['markdown', 'html', 'text'];
+
+export interface OutputConfig {
+  formats: OutputFormat[];
+  // Write a highlights paragraph per team and an org-wide TL;DR from the repo summaries
+  highlights: boolean;
+}
+
+export interface ConcurrencyConfig {
+  // Repos checked or summarized at the same time
+  repos: number;
+  githubRequestsPerMinute?: number;
+  llmRequestsPerMinute?: number;
+}
+
+export interface CacheConfig {
+  enabled: boolean;
+  directory: string;
+}
+
+// Limits above which a metric is highlighted as an outlier
+export interface MetricsThresholds {
+  // Median hours from PR open to merge
+  cycleTimeHours: number;
+  // Median hours from PR open to the first review
+  firstReviewHours: number;
+  // Median lines added and deleted per PR
+  pullRequestSize: number;
+  // PRs merged without a review by someone other than the author
+  unreviewedMerges: number;
+}
+
+export interface MetricsConfig {
+  enabled: boolean;
+  thresholds: MetricsThresholds;
+}
+
+export interface SpotlightConfig {
+  enabled: boolean;
+  // Logins treated as bots besides those ending in "[bot]"
+  bots: string[];
+  // Logins of people who do not want to be named in the spotlight
+  optOut: string[];
+  // Reviewers listed per team
+  topReviewers: number;
+}
+
+export interface IssuesConfig {
+  enabled: boolean;
+  labels: IssueLabelMapping;
+  // Labels that mark an issue as high priority
+  priorityLabels: string[];
+  // Oldest open high-priority issues listed per repo
+  oldestOpen: number;
+}
+
+export interface ReleasesConfig {
+  enabled: boolean;
+  // Also list tags pushed without a release
+  tags: boolean;
+}
+
+// "rolling" covers the timeframeDays up to the run, "week" the last full ISO week (Monday to Sunday), "month" the last full calendar month, "sprint" the last full sprint, "since-last-edition" everything after the last published edition
+export type WindowMode = 'rolling' | 'week' | 'month' | 'sprint' | 'since-last-edition';
+
+export const WINDOW_MODES: WindowMode[] = ['rolling', 'week', 'month', 'sprint', 'since-last-edition'];
+
+export interface SprintConfig {
+  // The first day of any sprint, YYYY-MM-DD
+  anchor: string;
+  lengthDays: number;
+}
+
+export interface WindowConfig {
+  mode: WindowMode;
+  // IANA timezone for window boundaries and the dates shown, e.g. "Europe/Berlin"
+  timezone: string;
+  sprint?: SprintConfig;
+}
+
+export interface ArchiveConfig {
+  enabled: boolean;
+  directory: string;
+  // Editions are filed under this name; defaults to the configured owners, so configs covering other owners do not mix
+  name: string;
+  // Past editions averaged in the trends section
+  trendEditions: number;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Use implicit TLS (usually port 465); otherwise STARTTLS is negotiated when offered
+  secure: boolean;
+  requireTLS: boolean;
+  rejectUnauthorized: boolean;
+  user?: string;
+  password?: string;
+}
+
+export interface EmailConfig {
+  smtp: SmtpConfig;
+  from: string;
+  subjectPrefix?: string;
+  // Org-wide distribution list, always sent the full edition
+  recipients: string[];
 }
 
 export interface AppConfig {
   github: GitHubConfig;
+  window: WindowConfig;
   teams: TeamsConfig;
-  openai: OpenAIConfig;
+  teamMatching: TeamMatchingMode;
+  llm: LLMConfig;
+  output: OutputConfig;
+  cache: CacheConfig;
+  archive: ArchiveConfig;
+  metrics: MetricsConfig;
+  spotlight: SpotlightConfig;
+  releases: ReleasesConfig;
+  issues: IssuesConfig;
+  concurrency: ConcurrencyConfig;
+  email?: EmailConfig;
 }
 
+const issueLabelsSchema = {
+  type: 'object',
+  additionalProperties: {
+    type: 'array',
+    items: { type: 'string' }
+  }
+};
+
 const configSchema = {
   type: 'object',
-  required: ['github', 'teams', 'openai'],
+  required: ['github', 'teams'],
+  // "openai" is the older form of "llm" and implies the OpenAI provider
+  anyOf: [{ required: ['llm'] }, { required: ['openai'] }],
   properties: {
     github: {
       type: 'object',
       required: ['organization', 'timeframeDays', 'token'],
       properties: {
         organization: { type: 'string' },
+        organizations: {
+          type: 'array',
+          items: {
+            anyOf: [
+              { type: 'string' },
+              {
+                type: 'object',
+                required: ['name'],
+                properties: {
+                  name: { type: 'string' },
+                  token: { type: 'string' },
+                  user: { type: 'boolean' }
+                }
+              }
+            ]
+          }
+        },
         timeframeDays: { type: 'number', minimum: 1 },
-        token: { type: 'string' }
+        token: { type: 'string' },
+        activity: { type: 'string', enum: ['merged', 'merged-or-closed'] },
+        discovery: { type: 'string', enum: ['per-repo', 'search'] },
+        backend: { type: 'string', enum: ['mcp', 'api'] },
+        apiUrl: { type: 'string' },
+        openPullRequests: {
+          type: 'object',
+          properties: {
+            minAgeDays: { type: 'number', minimum: 0 },
+            includeReviewRequested: { type: 'boolean' },
+            maxPerRepo: { type: 'integer', minimum: 1 }
+          }
+        }
       }
     },
     teams: {
@@ -53,10 +318,88 @@ const configSchema = {
           repos: {
             type: 'array',
             items: { type: 'string' }
+          },
+          globs: {
+            type: 'array',
+            items: { type: 'string' }
+          },
+          patterns: {
+            type: 'array',
+            items: { type: 'string' }
+          },
+          topics: {
+            type: 'array',
+            items: { type: 'string' }
+          },
+          githubTeam: { type: 'string' },
+          codeowners: {
+            type: 'array',
+            items: { type: 'string' }
+          },
+          exclude: {
+            type: 'array',
+            items: { type: 'string' }
+          },
+          priority: { type: 'number' },
+          sections: {
+            type: 'object',
+            properties: {
+              merged: { type: 'boolean' },
+              closedUnmerged: { type: 'boolean' },
+              inFlight: { type: 'boolean' },
+              metrics: { type: 'boolean' },
+              issues: { type: 'boolean' }
+            }
+          },
+          issueLabels: issueLabelsSchema,
+          email: {
+            type: 'object',
+            required: ['recipients'],
+            properties: {
+              recipients: {
+                type: 'array',
+                items: { type: 'string' }
+              },
+              edition: { type: 'string', enum: ['team', 'full'] }
+            }
+          },
+          slack: {
+            type: 'object',
+            properties: {
+              webhookUrl: { type: 'string' },
+              botToken: { type: 'string' },
+              channel: { type: 'string' }
+            },
+            anyOf: [{ required: ['webhookUrl'] }, { required: ['botToken', 'channel'] }]
+          },
+          msTeams: {
+            type: 'object',
+            required: ['webhookUrl'],
+            properties: {
+              webhookUrl: { type: 'string' }
+            }
           }
         }
       }
     },
+    teamMatching: { type: 'string', enum: ['best', 'all'] },
+    llm: {
+      type: 'object',
+      required: ['provider'],
+      properties: {
+        provider: { type: 'string', enum: LLM_PROVIDERS },
+        model: { type: 'string' },
+        apiKey: { type: 'string' },
+        baseUrl: { type: 'string' },
+        deployment: { type: 'string' },
+        apiVersion: { type: 'string' },
+        headers: {
+          type: 'object',
+          additionalProperties: { type: 'string' }
+        },
+        structuredOutputs: { type: 'boolean' }
+      }
+    },
     openai: {
       type: 'object',
       required: ['apiKey'],
@@ -64,15 +407,134 @@ const configSchema = {
         apiKey: { type: 'string' },
         model: { type: 'string' }
       }
+    },
+    output: {
+      type: 'object',
+      properties: {
+        formats: {
+          type: 'array',
+          minItems: 1,
+          uniqueItems: true,
+          items: { type: 'string', enum: OUTPUT_FORMATS }
+        },
+        highlights: { type: 'boolean' }
+      }
+    },
+    cache: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        directory: { type: 'string' }
+      }
+    },
+    metrics: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        thresholds: {
+          type: 'object',
+          properties: {
+            cycleTimeHours: { type: 'number', minimum: 0 },
+            firstReviewHours: { type: 'number', minimum: 0 },
+            pullRequestSize: { type: 'integer', minimum: 0 },
+            unreviewedMerges: { type: 'integer', minimum: 0 }
+          }
+        }
+      }
+    },
+    spotlight: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        bots: { type: 'array', items: { type: 'string' } },
+        optOut: { type: 'array', items: { type: 'string' } },
+        topReviewers: { type: 'integer', minimum: 0 }
+      }
+    },
+    issues: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        labels: issueLabelsSchema,
+        priorityLabels: { type: 'array', items: { type: 'string' } },
+        oldestOpen: { type: 'integer', minimum: 0 }
+      }
+    },
+    releases: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        tags: { type: 'boolean' }
+      }
+    },
+    window: {
+      type: 'object',
+      properties: {
+        mode: { type: 'string', enum: WINDOW_MODES },
+        timezone: { type: 'string' },
+        sprint: {
+          type: 'object',
+          required: ['anchor', 'lengthDays'],
+          properties: {
+            anchor: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' },
+            lengthDays: { type: 'integer', minimum: 1 }
+          }
+        }
+      }
+    },
+    archive: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        directory: { type: 'string' },
+        name: { type: 'string', pattern: '^[A-Za-z0-9._+-]+$' },
+        trendEditions: { type: 'integer', minimum: 1 }
+      }
+    },
+    concurrency: {
+      type: 'object',
+      properties: {
+        repos: { type: 'integer', minimum: 1 },
+        githubRequestsPerMinute: { type: 'number', exclusiveMinimum: 0 },
+        llmRequestsPerMinute: { type: 'number', exclusiveMinimum: 0 }
+      }
+    },
+    email: {
+      type: 'object',
+      required: ['smtp', 'from'],
+      properties: {
+        smtp: {
+          type: 'object',
+          required: ['host'],
+          properties: {
+            host: { type: 'string' },
+            port: { type: 'number' },
+            secure: { type: 'boolean' },
+            requireTLS: { type: 'boolean' },
+            rejectUnauthorized: { type: 'boolean' },
+            user: { type: 'string' },
+            password: { type: 'string' }
+          }
+        },
+        from: { type: 'string' },
+        subjectPrefix: { type: 'string' },
+        recipients: {
+          type: 'array',
+          items: { type: 'string' }
+        }
+      }
     }
   }
 };
 
-function resolveEnvVar(value: string): string {
+function resolveEnvVar(value: string, optional = false): string {
   if (value.startsWith('env:')) {
     const envVarName = value.substring(4);
     const envValue = process.env[envVarName];
     if (!envValue) {
+      if (optional) {
+        return '';
+      }
       throw new Error(`Environment variable ${envVarName} is not set`);
     }
     return envValue;
@@ -80,42 +542,354 @@ function resolveEnvVar(value: string): string {
   return value;
 }
 
-export function loadConfig(configPath?: string): AppConfig {
-  const path = configPath || join(process.cwd(), 'config.json');
-  const configContent = readFileSync(path, 'utf-8');
-  const rawConfig: any = JSON.parse(configContent);
+// Webhook URLs and bot tokens are secrets, so they may be given as env: references
+function resolveTeamSecrets(teams: TeamsConfig, optional: boolean): TeamsConfig {
+  const resolved: TeamsConfig = {};
+  for (const [teamName, teamConfig] of Object.entries(teams)) {
+    resolved[teamName] = { ...teamConfig };
+    if (teamConfig.slack) {
+      resolved[teamName].slack = {
+        webhookUrl: teamConfig.slack.webhookUrl && resolveEnvVar(teamConfig.slack.webhookUrl, optional),
+        botToken: teamConfig.slack.botToken && resolveEnvVar(teamConfig.slack.botToken, optional),
+        channel: teamConfig.slack.channel
+      };
+    }
+    if (teamConfig.msTeams) {
+      resolved[teamName].msTeams = {
+        webhookUrl: resolveEnvVar(teamConfig.msTeams.webhookUrl, optional)
+      };
+    }
+  }
+  return resolved;
+}
+
+// "acme" for one owner, "acme+acme-labs" for several, whatever order they are listed in
+function defaultArchiveName(organizations: GitHubOwnerConfig[]): string {
+  return organizations
+    .map(({ name }) => name)
+    .sort((a, b) => a.localeCompare(b))
+    .join('+');
+}
+
+// The primary organization comes first; an entry for it may give it its own token
+function resolveOrganizations(
+  githubConfig: {
+    organization: string;
+    organizations?: Array<string | { name: string; token?: string; user?: boolean }>;
+  },
+  defaultToken: string,
+  offline: boolean
+): GitHubOwnerConfig[] {
+  const owners: GitHubOwnerConfig[] = [{ name: githubConfig.organization, token: defaultToken, user: false }];
+  for (const entry of githubConfig.organizations || []) {
+    const { name, token, user } = typeof entry === 'string' ? { name: entry } : entry;
+    const owner = {
+      name,
+      token: token ? resolveEnvVar(token, offline) : defaultToken,
+      user: user ?? false
+    };
+    const index = owners.findIndex((existing) => existing.name.toLowerCase() === name.toLowerCase());
+    if (index === -1) {
+      owners.push(owner);
+    } else {
+      owners[index] = owner;
+    }
+  }
+  return owners;
+}
+
+/**
+ * The configured owner with the given name; owners that are not configured,
+ * such as the owner of a repo listed as "owner/repo", are taken to be
+ * organizations read with github.token
+ */
+export function getGitHubOwner(config: AppConfig, name: string): GitHubOwnerConfig {
+  return (
+    config.github.organizations.find((owner) => owner.name.toLowerCase() === name.toLowerCase()) || {
+      name,
+      token: config.github.token,
+      user: false
+    }
+  );
+}
+
+// Sprint windows need a sprint, and a misspelled timezone would silently shift every boundary
+function resolveWindowConfig(windowConfig: Partial<WindowConfig>): WindowConfig {
+  const mode = windowConfig.mode || 'rolling';
+  if (mode === 'sprint' && !windowConfig.sprint) {
+    throw new Error('window.sprint (anchor and lengthDays) is required for the sprint window mode');
+  }
+  if (windowConfig.sprint && Number.isNaN(new Date(windowConfig.sprint.anchor).getTime())) {
+    throw new Error(`Invalid window.sprint.anchor date: ${windowConfig.sprint.anchor}`);
+  }
+  const timezone = windowConfig.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    throw new Error(`Unknown timezone "${timezone}" in window.timezone; use an IANA name such as "Europe/Berlin"`);
+  }
+  return { mode, timezone, ...(windowConfig.sprint ? { sprint: windowConfig.sprint } : {}) };
+}
+
+// Regex patterns are compiled when teams are matched, so catch typos at load time
+function validateTeamPatterns(teams: TeamsConfig): void {
+  for (const [teamName, teamConfig] of Object.entries(teams)) {
+    for (const pattern of teamConfig.patterns || []) {
+      try {
+        new RegExp(pattern);
+      } catch (error) {
+        throw new Error(
+          `Invalid pattern "${pattern}" for team ${teamName}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
+}
+
+function resolveLLMConfig(rawConfig: any, offline: boolean): LLMConfig {
+  const llmConfig = (rawConfig.llm || { provider: 'openai', ...rawConfig.openai }) as Partial<LLMConfig> & {
+    provider: LLMProviderName;
+  };
+  const provider = llmConfig.provider;
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(llmConfig.headers || {})) {
+    headers[name] = resolveEnvVar(value, offline);
+  }
+
+  const config: LLMConfig = {
+    provider,
+    model: llmConfig.model || (provider === 'azure-openai' ? llmConfig.deployment || '' : ''),
+    apiKey: llmConfig.apiKey ? resolveEnvVar(llmConfig.apiKey, offline) || undefined : undefined,
+    baseUrl: llmConfig.baseUrl ? resolveEnvVar(llmConfig.baseUrl, offline) || undefined : undefined,
+    deployment: llmConfig.deployment,
+    apiVersion: llmConfig.apiVersion,
+    headers: Object.keys(headers).length > 0 ? headers : undefined,
+    // Most local OpenAI-compatible servers only support JSON mode
+    structuredOutputs: llmConfig.structuredOutputs ?? provider !== 'ollama'
+  };
+
+  switch (provider) {
+    case 'openai':
+      config.model = config.model || 'gpt-4o';
+      break;
+    case 'azure-openai':
+      if ((!config.baseUrl && !offline) || !config.deployment) {
+        throw new Error('llm.baseUrl and llm.deployment are required for the azure-openai provider');
+      }
+      config.apiVersion = config.apiVersion || '2024-10-21';
+      break;
+    case 'ollama':
+      config.baseUrl = config.baseUrl || 'http://localhost:11434/v1';
+      break;
+  }
+
+  if (!config.model) {
+    throw new Error(`llm.model is required for the ${provider} provider`);
+  }
+  // Local OpenAI-compatible servers usually run without a key
+  if (!config.apiKey && provider !== 'ollama' && !offline) {
+    throw new Error(`llm.apiKey is required for the ${provider} provider`);
+  }
+
+  return config;
+}
+
+export interface LoadConfigOptions {
+  // Replays, render and history need no credentials, so missing GitHub and LLM keys are allowed
+  offline?: boolean;
+  // Whether the run sends email or posts to chat; SMTP and chat secrets may be missing when it does not
+  deliver?: boolean;
+  // Profile from the config's `profiles` section to apply
+  profile?: string;
+}
+
+/**
+ * Load a JSON or YAML config file, with the files it extends and the
+ * selected profile merged in and ${VAR} references replaced, then validate
+ * it. Without a path, config.json, config.yaml or config.yml in the working
+ * directory is used.
+ */
+export function loadConfig(configPath?: string, options: LoadConfigOptions = {}): AppConfig {
+  const offline = options.offline ?? false;
+  const optionalDeliverySecrets = !(options.deliver ?? true);
+  const path = findConfigFile(configPath);
+  const rawConfig: any = interpolateEnv(applyProfile(readConfigFile(path), options.profile), offline);
 
   // Validate schema
-  const ajv = new Ajv();
+  const ajv = new Ajv({ allErrors: true });
   const validate = ajv.compile(configSchema);
   const valid = validate(rawConfig);
 
   if (!valid) {
-    throw new Error(`Invalid config: ${JSON.stringify(validate.errors, null, 2)}`);
+    const problems = formatValidationErrors(validate.errors || []);
+    throw new Error(
+      `Invalid config in ${path}${options.profile ? ` (profile ${options.profile})` : ''}:\n${problems
+        .map((problem) => `  - ${problem}`)
+        .join('\n')}`
+    );
   }
 
+  validateTeamPatterns(rawConfig.teams as TeamsConfig);
+
   // Resolve environment variables
-  const githubConfig = rawConfig.github as { organization: string; timeframeDays: number; token: string };
-  const openaiConfig = rawConfig.openai as { apiKey: string; model?: string };
+  const githubConfig = rawConfig.github as {
+    organization: string;
+    organizations?: Array<string | { name: string; token?: string; user?: boolean }>;
+    timeframeDays: number;
+    token: string;
+    activity?: ActivityMode;
+    discovery?: DiscoveryMode;
+    backend?: GitHubBackend;
+    apiUrl?: string;
+    openPullRequests?: Partial<OpenPullRequestsConfig>;
+  };
+  const token = resolveEnvVar(githubConfig.token, offline);
+  const outputConfig = (rawConfig.output || {}) as Partial<OutputConfig>;
+  const cacheConfig = (rawConfig.cache || {}) as Partial<CacheConfig>;
+  const archiveConfig = (rawConfig.archive || {}) as Partial<ArchiveConfig>;
+  const windowConfig = (rawConfig.window || {}) as Partial<WindowConfig>;
+  const metricsConfig = (rawConfig.metrics || {}) as {
+    enabled?: boolean;
+    thresholds?: Partial<MetricsThresholds>;
+  };
+  const thresholds: Partial<MetricsThresholds> = metricsConfig.thresholds || {};
+  const spotlightConfig = (rawConfig.spotlight || {}) as Partial<SpotlightConfig>;
+  const releasesConfig = (rawConfig.releases || {}) as Partial<ReleasesConfig>;
+  const issuesConfig = (rawConfig.issues || {}) as Partial<IssuesConfig>;
+  const concurrencyConfig = (rawConfig.concurrency || {}) as Partial<ConcurrencyConfig>;
+  const emailConfig = rawConfig.email as
+    | (Omit<EmailConfig, 'smtp' | 'recipients'> & {
+        smtp: Partial<SmtpConfig> & { host: string };
+        recipients?: string[];
+      })
+    | undefined;
+  const organizations = resolveOrganizations(githubConfig, token, offline);
   
   const config: AppConfig = {
     github: {
       organization: githubConfig.organization,
+      organizations,
       timeframeDays: githubConfig.timeframeDays,
-      token: resolveEnvVar(githubConfig.token)
+      token,
+      activity: githubConfig.activity || 'merged-or-closed',
+      discovery: githubConfig.discovery || 'per-repo',
+      backend: githubConfig.backend || 'mcp',
+      apiUrl: (githubConfig.apiUrl || 'https://api.github.com').replace(/\/$/, ''),
+      openPullRequests: {
+        minAgeDays: githubConfig.openPullRequests?.minAgeDays ?? 7,
+        includeReviewRequested: githubConfig.openPullRequests?.includeReviewRequested ?? true,
+        maxPerRepo: githubConfig.openPullRequests?.maxPerRepo ?? 10
+      }
     },
-    teams: rawConfig.teams as TeamsConfig,
-    openai: {
-      apiKey: resolveEnvVar(openaiConfig.apiKey),
-      model: openaiConfig.model || 'gpt-4-turbo'
+    window: resolveWindowConfig(windowConfig),
+    teams: resolveTeamSecrets(rawConfig.teams as TeamsConfig, optionalDeliverySecrets),
+    teamMatching: (rawConfig.teamMatching as TeamMatchingMode | undefined) || 'best',
+    llm: resolveLLMConfig(rawConfig, offline),
+    output: {
+      formats: outputConfig.formats || ['markdown'],
+      highlights: outputConfig.highlights ?? true
+    },
+    cache: {
+      enabled: cacheConfig.enabled ?? true,
+      directory: cacheConfig.directory || join(process.cwd(), '.newsletter-cache')
+    },
+    archive: {
+      enabled: archiveConfig.enabled ?? true,
+      directory: archiveConfig.directory || join(process.cwd(), '.newsletter-archive'),
+      name: archiveConfig.name || defaultArchiveName(organizations),
+      trendEditions: archiveConfig.trendEditions ?? 4
+    },
+    metrics: {
+      enabled: metricsConfig.enabled ?? true,
+      thresholds: {
+        cycleTimeHours: thresholds.cycleTimeHours ?? 72,
+        firstReviewHours: thresholds.firstReviewHours ?? 24,
+        pullRequestSize: thresholds.pullRequestSize ?? 500,
+        unreviewedMerges: thresholds.unreviewedMerges ?? 0
+      }
+    },
+    spotlight: {
+      enabled: spotlightConfig.enabled ?? true,
+      bots: spotlightConfig.bots || [],
+      optOut: spotlightConfig.optOut || [],
+      topReviewers: spotlightConfig.topReviewers ?? 3
+    },
+    releases: {
+      enabled: releasesConfig.enabled ?? true,
+      tags: releasesConfig.tags ?? true
+    },
+    issues: {
+      enabled: issuesConfig.enabled ?? false,
+      labels: issuesConfig.labels || {
+        Bugs: ['bug'],
+        Incidents: ['incident'],
+        'Customer-reported': ['customer-reported']
+      },
+      priorityLabels: issuesConfig.priorityLabels || ['P0', 'P1', 'priority: high'],
+      oldestOpen: issuesConfig.oldestOpen ?? 5
+    },
+    concurrency: {
+      repos: concurrencyConfig.repos ?? 4,
+      githubRequestsPerMinute: concurrencyConfig.githubRequestsPerMinute,
+      llmRequestsPerMinute: concurrencyConfig.llmRequestsPerMinute
     }
   };
 
+  if (emailConfig) {
+    const smtp = emailConfig.smtp;
+    const secure = smtp.secure ?? false;
+    config.email = {
+      smtp: {
+        host: resolveEnvVar(smtp.host, optionalDeliverySecrets),
+        port: smtp.port ?? (secure ? 465 : 587),
+        secure,
+        requireTLS: smtp.requireTLS ?? false,
+        rejectUnauthorized: smtp.rejectUnauthorized ?? true,
+        user: smtp.user ? resolveEnvVar(smtp.user, optionalDeliverySecrets) || undefined : undefined,
+        password: smtp.password ? resolveEnvVar(smtp.password, optionalDeliverySecrets) || undefined : undefined
+      },
+      from: resolveEnvVar(emailConfig.from, optionalDeliverySecrets),
+      subjectPrefix: emailConfig.subjectPrefix,
+      recipients: emailConfig.recipients || []
+    };
+  }
+
   // Verify GitHub token is available
-  if (!config.github.token) {
+  if (!config.github.token && !offline) {
     throw new Error('GitHub token is required but not set');
   }
 
+  // The since-last-edition window starts where the last archived edition ended
+  if (config.window.mode === 'since-last-edition' && !config.archive.enabled) {
+    throw new Error('The since-last-edition window mode needs archive.enabled');
+  }
+
+  // The GitHub MCP server has no tool that lists a team's repos
+  const githubTeamUsers = Object.keys(config.teams).filter((teamName) => config.teams[teamName].githubTeam);
+  if (config.github.backend === 'mcp' && githubTeamUsers.length > 0) {
+    throw new Error(
+      `githubTeam needs github.backend "api", the GitHub MCP server cannot list team repositories (used by ${githubTeamUsers.join(', ')})`
+    );
+  }
+
   return config;
 }
 
+/**
+ * Restrict the configuration to the named teams
+ */
+export function selectTeams(config: AppConfig, teamNames: string[]): AppConfig {
+  const unknown = teamNames.filter((name) => !(name in config.teams));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown team(s): ${unknown.join(', ')}. Configured teams: ${Object.keys(config.teams).join(', ')}`
+    );
+  }
+
+  const teams: TeamsConfig = {};
+  for (const name of teamNames) {
+    teams[name] = config.teams[name];
+  }
+  return { ...config, teams };
+}
@@ -0,0 +1,236 @@
+import { format } from "date-fns";
+import type { SpotlightConfig } from "./config.js";
+import type { GitHubDataSource } from "./github-data-source.js";
+import type { RepoSummary } from "./openai-agent.js";
+import type { PullRequestReview } from "./pr-collector.js";
+import type { SummaryCache } from "./summary-cache.js";
+import type { TeamGroupedSummaries } from "./team-aggregator.js";
+
+// Someone credited with a Co-authored-by trailer; the login is only known for GitHub noreply addresses
+export interface CoAuthor {
+  name: string;
+  login?: string;
+}
+
+const CO_AUTHOR_TRAILER = /^co-authored-by:\s*(.+?)\s*<([^>]*)>\s*$/gim;
+// 12345+octocat@users.noreply.github.com or octocat@users.noreply.github.com
+const NOREPLY_EMAIL = /^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/i;
+
+export function parseCoAuthors(message: string): CoAuthor[] {
+  return Array.from(message.matchAll(CO_AUTHOR_TRAILER)).map(([, name, email]) => {
+    const login = email.match(NOREPLY_EMAIL)?.[1];
+    return login ? { name, login } : { name };
+  });
+}
+
+export function isBot(login: string, config: SpotlightConfig): boolean {
+  const lowered = login.toLowerCase();
+  return (
+    lowered.endsWith("[bot]") ||
+    config.bots.some((bot) => bot.toLowerCase() === lowered)
+  );
+}
+
+/**
+ * Whether someone may be named in the spotlight: not a bot and not on the
+ * opt-out list
+ */
+export function isNameable(login: string, config: SpotlightConfig): boolean {
+  return (
+    login.length > 0 &&
+    !isBot(login, config) &&
+    !config.optOut.some((person) => person.toLowerCase() === login.toLowerCase())
+  );
+}
+
+/**
+ * Everyone other than the author who submitted a review, once each
+ */
+export function getReviewers(
+  author: string,
+  reviews: PullRequestReview[]
+): string[] {
+  return Array.from(
+    new Set(
+      reviews
+        .filter(
+          (review) =>
+            review.author && review.author !== author && review.state !== "PENDING"
+        )
+        .map((review) => review.author)
+    )
+  );
+}
+
+export function describeCoAuthor(coAuthor: CoAuthor): string {
+  return coAuthor.login ? `@${coAuthor.login}` : coAuthor.name;
+}
+
+/**
+ * Everyone credited as a co-author on the commits of the window, once each
+ */
+export async function listCoAuthors(
+  source: GitHubDataSource,
+  owner: string,
+  repo: string,
+  startDate: Date,
+  endDate: Date
+): Promise<CoAuthor[]> {
+  const coAuthors = new Map<string, CoAuthor>();
+  const perPage = 100;
+
+  for (let page = 1; ; page++) {
+    const commits = await source.listCommits(owner, repo, {
+      since: startDate,
+      until: endDate,
+      perPage,
+      page,
+    });
+    for (const commit of commits) {
+      for (const coAuthor of parseCoAuthors(commit.message)) {
+        const key = (coAuthor.login || coAuthor.name).toLowerCase();
+        coAuthors.set(key, coAuthors.get(key) || coAuthor);
+      }
+    }
+    if (commits.length < perPage) {
+      return Array.from(coAuthors.values());
+    }
+  }
+}
+
+/**
+ * Whether the author had no PR merged into the repo before the window
+ * started. The answer cannot change, so it is cached for good.
+ */
+export async function isFirstContribution(
+  source: GitHubDataSource,
+  cache: SummaryCache | null,
+  owner: string,
+  repo: string,
+  author: string,
+  startDate: Date
+): Promise<boolean> {
+  const before = format(startDate, "yyyy-MM-dd");
+  const cacheKey = `first-contribution:${owner}/${repo}:${author}:${before}`;
+  const cached = cache?.getHistory<boolean>(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const { totalCount } = await source.searchPullRequests(
+    `repo:${owner}/${repo} is:pr is:merged author:${author} merged:<${before}`,
+    { perPage: 1, page: 1 }
+  );
+  const firstContribution = totalCount === 0;
+  cache?.setHistory(cacheKey, firstContribution);
+  return firstContribution;
+}
+
+/**
+ * The people side of an edition: first-time contributors, the most active
+ * reviewers and the co-authors of each team, leaving out bots and anyone who
+ * opted out
+ */
+export interface ContributorSpotlight {
+  firstTimeContributors: Array<{ login: string; repoName: string; prNumber: number; url: string }>;
+  teams: Array<{
+    teamName: string;
+    // Reviewers by the number of PRs they reviewed
+    reviewers: Array<{ login: string; reviewed: number }>;
+    coAuthors: string[];
+  }>;
+}
+
+export const SPOTLIGHT_TITLE = "Contributor Spotlight";
+
+// "@bob (5 PRs), @carol (1 PR)"
+export function describeReviewers(
+  reviewers: Array<{ login: string; reviewed: number }>
+): string {
+  return reviewers
+    .map(({ login, reviewed }) => `@${login} (${reviewed} PR${reviewed === 1 ? "" : "s"})`)
+    .join(", ");
+}
+
+/**
+ * The shout-out lines without their "- " markers, dropping any that mention
+ * someone who has since opted out or been marked as a bot
+ */
+export function getShoutOuts(
+  shoutOuts: string | undefined,
+  config: SpotlightConfig
+): string[] {
+  return (shoutOuts || "")
+    .split("\n")
+    .map((line) => line.replace(/^\s*[-*]\s*/, "").trim())
+    .filter(
+      (line) =>
+        line.length > 0 &&
+        Array.from(line.matchAll(/@([\w-]+(?:\[bot\])?)/g)).every(([, login]) =>
+          isNameable(login, config)
+        )
+    );
+}
+
+/**
+ * Whether the spotlight has anything to show besides shout-outs
+ */
+export function hasSpotlight(spotlight: ContributorSpotlight): boolean {
+  return spotlight.firstTimeContributors.length > 0 || spotlight.teams.length > 0;
+}
+
+export function getContributorSpotlight(
+  groupedSummaries: TeamGroupedSummaries,
+  teamOrder: string[],
+  config: SpotlightConfig
+): ContributorSpotlight {
+  const repos = new Map<string, RepoSummary>();
+  for (const repo of Object.values(groupedSummaries).flat()) {
+    repos.set(`${repo.owner}/${repo.repoName}`, repo);
+  }
+
+  const firstTimeContributors = Array.from(repos.values()).flatMap((repo) =>
+    repo.pullRequests
+      .filter((pr) => pr.firstContribution && isNameable(pr.author, config))
+      .map((pr) => ({
+        login: pr.author,
+        repoName: repo.repoName,
+        prNumber: pr.number,
+        url: pr.url,
+      }))
+  );
+
+  const teams = teamOrder
+    .filter((teamName) => groupedSummaries[teamName]?.length)
+    .map((teamName) => {
+      const teamRepos = groupedSummaries[teamName];
+      const reviewCounts = new Map<string, number>();
+      for (const pr of teamRepos.flatMap((repo) => repo.pullRequests)) {
+        for (const reviewer of pr.reviewers || []) {
+          if (isNameable(reviewer, config)) {
+            reviewCounts.set(reviewer, (reviewCounts.get(reviewer) || 0) + 1);
+          }
+        }
+      }
+      const coAuthors = teamRepos
+        .flatMap((repo) => repo.coAuthors || [])
+        .filter((coAuthor) =>
+          coAuthor.login
+            ? isNameable(coAuthor.login, config)
+            : isNameable(coAuthor.name, config)
+        )
+        .map(describeCoAuthor);
+
+      return {
+        teamName,
+        reviewers: Array.from(reviewCounts.entries())
+          .map(([login, reviewed]) => ({ login, reviewed }))
+          .sort((a, b) => b.reviewed - a.reviewed || a.login.localeCompare(b.login))
+          .slice(0, config.topReviewers),
+        coAuthors: Array.from(new Set(coAuthors)),
+      };
+    })
+    .filter((team) => team.reviewers.length > 0 || team.coAuthors.length > 0);
+
+  return { firstTimeContributors, teams };
+}
@@ -0,0 +1,134 @@
+import nodemailer from 'nodemailer';
+import type { AppConfig, EmailConfig } from './config.js';
+import type { TeamGroupedSummaries } from './team-aggregator.js';
+import { generateHtmlNewsletter, generateTextNewsletter } from './email-renderer.js';
+import { getNewsletterTitle, NO_HIGHLIGHTS } from './newsletter-generator.js';
+import type { NewsletterHighlights } from './newsletter-generator.js';
+import type { NewsletterTrends } from './newsletter-trends.js';
+import type { ReportingWindow } from './report-window.js';
+
+export interface NewsletterEmail {
+  // Team name for a team section, or null for the full edition
+  teamName: string | null;
+  to: string[];
+  subject: string;
+  html: string;
+  text: string;
+}
+
+function buildSubject(emailConfig: EmailConfig, title: string, teamName: string | null): string {
+  const subject = teamName ? `${title} - ${teamName}` : title;
+  return emailConfig.subjectPrefix ? `${emailConfig.subjectPrefix} ${subject}` : subject;
+}
+
+/**
+ * Build one email per distribution list: the org-wide list and any team list
+ * configured for the full edition get every team, the other team lists get
+ * only their own section
+ */
+export function buildNewsletterEmails(
+  groupedSummaries: TeamGroupedSummaries,
+  config: AppConfig,
+  window: ReportingWindow,
+  teamOrder: string[],
+  highlights: NewsletterHighlights = NO_HIGHLIGHTS,
+  trends: NewsletterTrends | null = null
+): NewsletterEmail[] {
+  if (!config.email) {
+    return [];
+  }
+
+  const emailConfig = config.email;
+  const title = getNewsletterTitle(window);
+  const emails: NewsletterEmail[] = [];
+
+  const fullEditionRecipients = [...emailConfig.recipients];
+  for (const [teamName, teamConfig] of Object.entries(config.teams)) {
+    if (teamConfig.email && teamConfig.email.edition === 'full') {
+      fullEditionRecipients.push(...teamConfig.email.recipients);
+    }
+  }
+
+  if (fullEditionRecipients.length > 0) {
+    emails.push({
+      teamName: null,
+      to: Array.from(new Set(fullEditionRecipients)),
+      subject: buildSubject(emailConfig, title, null),
+      html: generateHtmlNewsletter(groupedSummaries, config, window, teamOrder, highlights, trends),
+      text: generateTextNewsletter(groupedSummaries, config, window, teamOrder, highlights, trends)
+    });
+  }
+
+  for (const [teamName, teamConfig] of Object.entries(config.teams)) {
+    if (!teamConfig.email || teamConfig.email.edition === 'full' || teamConfig.email.recipients.length === 0) {
+      continue;
+    }
+
+    const repos = groupedSummaries[teamName];
+    if (!repos || repos.length === 0) {
+      console.error(`  - No activity for ${teamName}, skipping its team email`);
+      continue;
+    }
+
+    const teamSummaries: TeamGroupedSummaries = { [teamName]: repos };
+    // A team's own edition leads with its highlights rather than the org-wide TL;DR and trends
+    const teamHighlights: NewsletterHighlights = { teams: highlights.teams };
+    emails.push({
+      teamName,
+      to: teamConfig.email.recipients,
+      subject: buildSubject(emailConfig, title, teamName),
+      html: generateHtmlNewsletter(teamSummaries, config, window, [teamName], teamHighlights),
+      text: generateTextNewsletter(teamSummaries, config, window, [teamName], teamHighlights)
+    });
+  }
+
+  return emails;
+}
+
+/**
+ * Send the newsletter emails as multipart HTML/text over SMTP.
+ * Returns the number of emails that could not be sent.
+ */
+export async function sendNewsletterEmails(
+  emails: NewsletterEmail[],
+  emailConfig: EmailConfig
+): Promise<number> {
+  const { smtp } = emailConfig;
+  const transport = nodemailer.createTransport({
+    host: smtp.host,
+    port: smtp.port,
+    secure: smtp.secure,
+    requireTLS: smtp.requireTLS,
+    auth: smtp.user ? { user: smtp.user, pass: smtp.password } : undefined,
+    tls: { rejectUnauthorized: smtp.rejectUnauthorized }
+  });
+
+  let failed = 0;
+  try {
+    await transport.verify();
+
+    for (const email of emails) {
+      const label = email.teamName ? `${email.teamName} section` : 'full edition';
+      try {
+        await transport.sendMail({
+          from: emailConfig.from,
+          to: email.to,
+          subject: email.subject,
+          text: email.text,
+          html: email.html
+        });
+        console.error(`  ✓ Sent ${label} to ${email.to.join(', ')}`);
+      } catch (error) {
+        failed++;
+        console.error(
+          `  ✗ Error sending ${label} to ${email.to.join(', ')}:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+  } finally {
+    transport.close();
+  }
+
+  return failed;
+}
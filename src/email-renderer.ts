@@ -0,0 +1,526 @@
+import type { RepoSummary } from './openai-agent.js';
+import type { TeamGroupedSummaries } from './team-aggregator.js';
+import type { AppConfig } from './config.js';
+import {
+  describePullRequestDate,
+  describeRelease,
+  getNewsletterStats,
+  getNewsletterTitle,
+  getOrgSummaryTitle,
+  getPeriodName,
+  getPullRequestSections,
+  getTeamSections,
+  NO_HIGHLIGHTS
+} from './newsletter-generator.js';
+import type { NewsletterHighlights } from './newsletter-generator.js';
+import { getTrendsTable, TRENDS_TITLE } from './newsletter-trends.js';
+import type { NewsletterTrends } from './newsletter-trends.js';
+import type { ReportingWindow } from './report-window.js';
+import { getTeamMetricsTable } from './engineering-metrics.js';
+import {
+  describeIssueAge,
+  describeIssueGroup,
+  getIssueSection,
+  ISSUES_TITLE,
+  OLDEST_OPEN_TITLE
+} from './issue-collector.js';
+import {
+  describeReviewers,
+  getContributorSpotlight,
+  getShoutOuts,
+  hasSpotlight,
+  SPOTLIGHT_TITLE
+} from './contributors.js';
+import type { ContributorSpotlight } from './contributors.js';
+
+// Email clients ignore <style> blocks unreliably, so every element carries its own styles
+const STYLES = {
+  body: 'margin:0;padding:0;background-color:#f4f5f7;',
+  container:
+    'max-width:720px;margin:0 auto;padding:24px;background-color:#ffffff;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;font-size:15px;line-height:1.5;color:#1f2328;',
+  h1: 'font-size:24px;margin:0 0 8px 0;',
+  h2: 'font-size:20px;margin:32px 0 12px 0;padding-bottom:6px;border-bottom:2px solid #d0d7de;',
+  h3: 'font-size:17px;margin:24px 0 8px 0;',
+  summary: 'color:#57606a;margin:0 0 16px 0;',
+  orgSummary:
+    'background-color:#ddf4ff;border-left:4px solid #0969da;border-radius:4px;padding:12px 16px;margin:16px 0;',
+  orgSummaryTitle: 'font-weight:bold;margin:0 0 6px 0;',
+  teamHighlights: 'margin:0 0 16px 0;',
+  toc: 'background-color:#f6f8fa;border:1px solid #d0d7de;border-radius:6px;padding:12px 16px;margin:16px 0;',
+  tocList: 'margin:4px 0 0 0;padding-left:20px;',
+  link: 'color:#0969da;text-decoration:none;',
+  prSection: 'font-weight:bold;margin:12px 0 0 0;',
+  prList: 'margin:8px 0 16px 0;padding-left:20px;',
+  prItem: 'margin:0 0 8px 0;',
+  prMeta: 'color:#57606a;font-size:13px;',
+  breaking:
+    'background-color:#fff8c5;border-left:4px solid #d1242f;border-radius:4px;padding:12px 16px;margin:12px 0 16px 0;',
+  breakingTitle: 'font-weight:bold;color:#d1242f;margin:0 0 6px 0;',
+  divider: 'border:none;border-top:1px solid #d0d7de;margin:24px 0;',
+  table: 'border-collapse:collapse;margin:8px 0 16px 0;',
+  th: 'text-align:left;padding:6px 12px;border-bottom:2px solid #d0d7de;',
+  td: 'padding:6px 12px;border-bottom:1px solid #d0d7de;',
+  trendsNote: 'margin:0 0 8px 0;',
+  metricsTitle: 'font-weight:bold;margin:0 0 4px 0;',
+  outlier: 'padding:6px 12px;border-bottom:1px solid #d0d7de;color:#d1242f;font-weight:bold;'
+};
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function anchorId(...parts: string[]): string {
+  return parts
+    .join('-')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function renderRepoHtml(
+  teamName: string,
+  repo: RepoSummary,
+  config: AppConfig,
+  startDate: Date,
+  endDate: Date
+): string[] {
+  const html: string[] = [];
+
+  html.push(`<h3 id="${anchorId(teamName, repo.repoName)}" style="${STYLES.h3}">${escapeHtml(repo.repoName)}</h3>`);
+  html.push(`<p style="${STYLES.summary}">${escapeHtml(repo.overallSummary)}</p>`);
+
+  if (repo.breakingChanges.length > 0) {
+    html.push(`<div style="${STYLES.breaking}">`);
+    html.push(`<p style="${STYLES.breakingTitle}">&#9888; High-Risk/Breaking Changes</p>`);
+    html.push(`<ul style="${STYLES.tocList}">`);
+    for (const breakingChange of repo.breakingChanges) {
+      const pr = repo.pullRequests.find((p) => p.number === breakingChange.prNumber);
+      const label = pr
+        ? `<a href="${escapeHtml(pr.url)}" style="${STYLES.link}">PR #${breakingChange.prNumber}</a>`
+        : `PR #${breakingChange.prNumber}`;
+      html.push(`<li>${label}: ${escapeHtml(breakingChange.description)}</li>`);
+    }
+    html.push('</ul>');
+    html.push('</div>');
+  }
+
+  if (repo.releases && repo.releases.length > 0) {
+    html.push(`<p style="${STYLES.prSection}">Releases</p>`);
+    html.push(`<ul style="${STYLES.prList}">`);
+    for (const release of repo.releases) {
+      html.push(`<li style="${STYLES.prItem}">`);
+      html.push(
+        `<a href="${escapeHtml(release.url)}" style="${STYLES.link}"><strong>${escapeHtml(describeRelease(release))}</strong></a>`
+      );
+      html.push(`<br><span style="${STYLES.prMeta}">${escapeHtml(release.date)}</span>`);
+      if (release.notes) {
+        html.push(`<br>${escapeHtml(release.notes)}`);
+      }
+      if (release.pullRequests.length > 0) {
+        const links = release.pullRequests.map(
+          (pr) => `<a href="${escapeHtml(pr.url)}" style="${STYLES.link}">#${pr.number}</a>`
+        );
+        html.push(`<br><span style="${STYLES.prMeta}">Includes ${links.join(', ')}</span>`);
+      }
+      html.push('</li>');
+    }
+    html.push('</ul>');
+  }
+
+  for (const section of getPullRequestSections(repo)) {
+    html.push(`<p style="${STYLES.prSection}">${escapeHtml(section.title)}</p>`);
+    html.push(`<ul style="${STYLES.prList}">`);
+    for (const pr of section.pullRequests) {
+      html.push(`<li style="${STYLES.prItem}">`);
+      html.push(
+        `<a href="${escapeHtml(pr.url)}" style="${STYLES.link}"><strong>#${pr.number}</strong> ${escapeHtml(pr.title)}</a>`
+      );
+      html.push(`<br><span style="${STYLES.prMeta}">${escapeHtml(pr.author)} &middot; ${escapeHtml(describePullRequestDate(pr))}</span>`);
+      if (pr.summary) {
+        html.push(`<br>${escapeHtml(pr.summary)}`);
+      }
+      html.push('</li>');
+    }
+    html.push('</ul>');
+  }
+
+  const issues = getIssueSection(teamName, repo, config, startDate, endDate);
+  if (issues && issues.groups.length > 0) {
+    html.push(`<p style="${STYLES.prSection}">${ISSUES_TITLE}</p>`);
+    html.push(`<ul style="${STYLES.prList}">`);
+    for (const group of issues.groups) {
+      html.push(`<li style="${STYLES.prItem}"><strong>${escapeHtml(group.name)}:</strong> ${escapeHtml(describeIssueGroup(group))}</li>`);
+    }
+    html.push('</ul>');
+  }
+  if (issues && issues.oldestOpen.length > 0) {
+    html.push(`<p style="${STYLES.prSection}">${OLDEST_OPEN_TITLE}</p>`);
+    html.push(`<ul style="${STYLES.prList}">`);
+    for (const issue of issues.oldestOpen) {
+      html.push(
+        `<li style="${STYLES.prItem}"><a href="${escapeHtml(issue.url)}" style="${STYLES.link}"><strong>#${issue.number}</strong> ${escapeHtml(issue.title)}</a> <span style="${STYLES.prMeta}">${describeIssueAge(issue)}</span></li>`
+      );
+    }
+    html.push('</ul>');
+  }
+
+  return html;
+}
+
+// The team's metrics table, with outliers marked, or nothing when it has none
+function renderHtmlMetrics(teamName: string, repos: RepoSummary[], config: AppConfig): string[] {
+  const table = getTeamMetricsTable(teamName, repos, config);
+  if (!table) {
+    return [];
+  }
+
+  const html = [`<p style="${STYLES.metricsTitle}">Metrics (merged PRs)</p>`, `<table style="${STYLES.table}">`];
+  html.push(`<tr>${table.headings.map((heading) => `<th style="${STYLES.th}">${escapeHtml(heading)}</th>`).join('')}</tr>`);
+  for (const row of table.rows) {
+    html.push(
+      `<tr>${row
+        .map((cell) => `<td style="${cell.outlier ? STYLES.outlier : STYLES.td}">${cell.outlier ? '&#9888; ' : ''}${escapeHtml(cell.text)}</td>`)
+        .join('')}</tr>`
+    );
+  }
+  html.push('</table>');
+  return html;
+}
+
+/**
+ * The spotlight for these teams and its shout-outs, or null when there is
+ * nothing to show
+ */
+function getSpotlight(
+  groupedSummaries: TeamGroupedSummaries,
+  config: AppConfig,
+  teamOrder: string[],
+  shoutOuts: string | undefined
+): { spotlight: ContributorSpotlight; shoutOuts: string[] } | null {
+  if (!config.spotlight.enabled) {
+    return null;
+  }
+  const spotlight = getContributorSpotlight(groupedSummaries, teamOrder, config.spotlight);
+  const shoutOutLines = getShoutOuts(shoutOuts, config.spotlight);
+  return shoutOutLines.length > 0 || hasSpotlight(spotlight) ? { spotlight, shoutOuts: shoutOutLines } : null;
+}
+
+function renderHtmlSpotlight(spotlight: ContributorSpotlight, shoutOuts: string[]): string[] {
+  const html = [`<h2 style="${STYLES.h2}">${SPOTLIGHT_TITLE}</h2>`];
+  const list = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    html.push(`<p style="${STYLES.prSection}">${title}</p>`);
+    html.push(`<ul style="${STYLES.prList}">`);
+    html.push(...items.map((item) => `<li style="${STYLES.prItem}">${item}</li>`));
+    html.push('</ul>');
+  };
+
+  list('Shout-outs', shoutOuts.map(escapeHtml));
+  list(
+    'First-time contributors',
+    spotlight.firstTimeContributors.map(
+      ({ login, repoName, prNumber, url }) =>
+        `@${escapeHtml(login)} in ${escapeHtml(repoName)} (<a href="${escapeHtml(url)}" style="${STYLES.link}">PR #${prNumber}</a>)`
+    )
+  );
+  list(
+    'Top reviewers',
+    spotlight.teams
+      .filter((team) => team.reviewers.length > 0)
+      .map(({ teamName, reviewers }) => `<strong>${escapeHtml(teamName)}:</strong> ${escapeHtml(describeReviewers(reviewers))}`)
+  );
+  list(
+    'Co-authors',
+    spotlight.teams
+      .filter((team) => team.coAuthors.length > 0)
+      .map(({ teamName, coAuthors }) => `<strong>${escapeHtml(teamName)}:</strong> ${escapeHtml(coAuthors.join(', '))}`)
+  );
+  return html;
+}
+
+function renderHtmlTrends(trends: NewsletterTrends, period: string): string[] {
+  const { headings, rows } = getTrendsTable(trends, period);
+  const html: string[] = [`<h2 style="${STYLES.h2}">${TRENDS_TITLE}</h2>`];
+  html.push(`<table style="${STYLES.table}">`);
+  html.push(`<tr>${headings.map((heading) => `<th style="${STYLES.th}">${escapeHtml(heading)}</th>`).join('')}</tr>`);
+  for (const row of rows) {
+    html.push(`<tr>${row.map((cell) => `<td style="${STYLES.td}">${escapeHtml(cell)}</td>`).join('')}</tr>`);
+  }
+  html.push('</table>');
+
+  if (trends.newRepos.length > 0) {
+    html.push(`<p style="${STYLES.trendsNote}"><strong>New this ${period}:</strong> ${escapeHtml(trends.newRepos.join(', '))}</p>`);
+  }
+  if (trends.quietRepos.length > 0) {
+    html.push(`<p style="${STYLES.trendsNote}"><strong>Went quiet:</strong> ${escapeHtml(trends.quietRepos.join(', '))}</p>`);
+  }
+  return html;
+}
+
+/**
+ * Render the newsletter as a standalone, inline-styled HTML document suitable for email
+ */
+export function generateHtmlNewsletter(
+  groupedSummaries: TeamGroupedSummaries,
+  config: AppConfig,
+  window: ReportingWindow,
+  teamOrder: string[],
+  highlights: NewsletterHighlights = NO_HIGHLIGHTS,
+  trends: NewsletterTrends | null = null
+): string {
+  const { startDate, endDate } = window;
+  const title = getNewsletterTitle(window);
+  const { totalRepos, totalPRs } = getNewsletterStats(groupedSummaries);
+  const sections = getTeamSections(groupedSummaries, teamOrder);
+  const html: string[] = [];
+
+  html.push('<!DOCTYPE html>');
+  html.push('<html lang="en">');
+  html.push('<head>');
+  html.push('<meta charset="utf-8">');
+  html.push('<meta name="viewport" content="width=device-width, initial-scale=1">');
+  html.push(`<title>${escapeHtml(title)}</title>`);
+  html.push('</head>');
+  html.push(`<body style="${STYLES.body}">`);
+  html.push(`<div style="${STYLES.container}">`);
+  html.push(`<h1 style="${STYLES.h1}">${escapeHtml(title)}</h1>`);
+  html.push(`<p style="${STYLES.summary}"><strong>Summary:</strong> ${totalRepos} repositories with ${totalPRs} pull requests</p>`);
+
+  if (highlights.org) {
+    html.push(`<div style="${STYLES.orgSummary}">`);
+    html.push(`<p style="${STYLES.orgSummaryTitle}">${getOrgSummaryTitle(window)}</p>`);
+    html.push(escapeHtml(highlights.org));
+    html.push('</div>');
+  }
+
+  // Table of contents, one entry per team with its repos nested underneath
+  if (sections.length > 0) {
+    html.push(`<div style="${STYLES.toc}">`);
+    html.push('<strong>Contents</strong>');
+    html.push(`<ul style="${STYLES.tocList}">`);
+    for (const { teamName, repos } of sections) {
+      html.push(`<li><a href="#${anchorId(teamName)}" style="${STYLES.link}">${escapeHtml(teamName)}</a>`);
+      html.push(`<ul style="${STYLES.tocList}">`);
+      for (const repo of repos) {
+        const warning = repo.breakingChanges.length > 0 ? ' &#9888;' : '';
+        html.push(
+          `<li><a href="#${anchorId(teamName, repo.repoName)}" style="${STYLES.link}">${escapeHtml(repo.repoName)}</a>${warning}</li>`
+        );
+      }
+      html.push('</ul></li>');
+    }
+    html.push('</ul>');
+    html.push('</div>');
+  }
+
+  if (trends) {
+    html.push(...renderHtmlTrends(trends, getPeriodName(window)));
+  }
+
+  for (const { teamName, repos } of sections) {
+    html.push(`<h2 id="${anchorId(teamName)}" style="${STYLES.h2}">${escapeHtml(teamName)}</h2>`);
+    if (highlights.teams[teamName]) {
+      html.push(
+        `<p style="${STYLES.teamHighlights}"><strong>Highlights:</strong> ${escapeHtml(highlights.teams[teamName])}</p>`
+      );
+    }
+    html.push(...renderHtmlMetrics(teamName, repos, config));
+    for (const repo of repos) {
+      html.push(...renderRepoHtml(teamName, repo, config, startDate, endDate));
+    }
+    html.push(`<hr style="${STYLES.divider}">`);
+  }
+
+  const spotlight = getSpotlight(groupedSummaries, config, teamOrder, highlights.shoutOuts);
+  if (spotlight) {
+    html.push(...renderHtmlSpotlight(spotlight.spotlight, spotlight.shoutOuts));
+  }
+
+  html.push('</div>');
+  html.push('</body>');
+  html.push('</html>');
+
+  return html.join('\n');
+}
+
+// Pad each column to its widest cell so the table lines up in a monospace font
+function renderTextTable(headings: string[], rows: string[][]): string[] {
+  const widths = headings.map((heading, column) => Math.max(heading.length, ...rows.map((row) => row[column].length)));
+  const formatRow = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  return [formatRow(headings), ...rows.map(formatRow)];
+}
+
+function renderTextMetrics(teamName: string, repos: RepoSummary[], config: AppConfig): string[] {
+  const table = getTeamMetricsTable(teamName, repos, config);
+  if (!table) {
+    return [];
+  }
+
+  const rows = table.rows.map((row) => row.map((cell) => (cell.outlier ? `! ${cell.text}` : cell.text)));
+  return ['Metrics (merged PRs, ! marks outliers):', '', ...renderTextTable(table.headings, rows), ''];
+}
+
+function renderTextSpotlight(spotlight: ContributorSpotlight, shoutOuts: string[]): string[] {
+  const lines = [SPOTLIGHT_TITLE, '-'.repeat(SPOTLIGHT_TITLE.length), ''];
+  const list = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    lines.push(`${title}:`, ...items.map((item) => `   - ${item}`), '');
+  };
+
+  list('Shout-outs', shoutOuts);
+  list(
+    'First-time contributors',
+    spotlight.firstTimeContributors.map(({ login, repoName, prNumber, url }) => `@${login} in ${repoName} (PR #${prNumber}, ${url})`)
+  );
+  list(
+    'Top reviewers',
+    spotlight.teams
+      .filter((team) => team.reviewers.length > 0)
+      .map(({ teamName, reviewers }) => `${teamName}: ${describeReviewers(reviewers)}`)
+  );
+  list(
+    'Co-authors',
+    spotlight.teams
+      .filter((team) => team.coAuthors.length > 0)
+      .map(({ teamName, coAuthors }) => `${teamName}: ${coAuthors.join(', ')}`)
+  );
+  return lines;
+}
+
+function renderTextTrends(trends: NewsletterTrends, period: string): string[] {
+  const { headings, rows } = getTrendsTable(trends, period);
+  const lines = [TRENDS_TITLE, '-'.repeat(TRENDS_TITLE.length), ''];
+  lines.push(...renderTextTable(headings, rows));
+  lines.push('');
+
+  if (trends.newRepos.length > 0) {
+    lines.push(`New this ${period}: ${trends.newRepos.join(', ')}`);
+  }
+  if (trends.quietRepos.length > 0) {
+    lines.push(`Went quiet: ${trends.quietRepos.join(', ')}`);
+  }
+  if (trends.newRepos.length > 0 || trends.quietRepos.length > 0) {
+    lines.push('');
+  }
+  return lines;
+}
+
+/**
+ * Render the newsletter as plain text, used as the text/plain alternative in email
+ */
+export function generateTextNewsletter(
+  groupedSummaries: TeamGroupedSummaries,
+  config: AppConfig,
+  window: ReportingWindow,
+  teamOrder: string[],
+  highlights: NewsletterHighlights = NO_HIGHLIGHTS,
+  trends: NewsletterTrends | null = null
+): string {
+  const { startDate, endDate } = window;
+  const title = getNewsletterTitle(window);
+  const { totalRepos, totalPRs } = getNewsletterStats(groupedSummaries);
+  const lines: string[] = [];
+
+  lines.push(title);
+  lines.push('='.repeat(title.length));
+  lines.push('');
+  lines.push(`Summary: ${totalRepos} repositories with ${totalPRs} pull requests`);
+  lines.push('');
+
+  if (highlights.org) {
+    const orgSummaryTitle = getOrgSummaryTitle(window);
+    lines.push(orgSummaryTitle);
+    lines.push('-'.repeat(orgSummaryTitle.length));
+    lines.push('');
+    lines.push(highlights.org);
+    lines.push('');
+  }
+
+  if (trends) {
+    lines.push(...renderTextTrends(trends, getPeriodName(window)));
+  }
+
+  for (const { teamName, repos } of getTeamSections(groupedSummaries, teamOrder)) {
+    lines.push(teamName);
+    lines.push('-'.repeat(teamName.length));
+    lines.push('');
+
+    if (highlights.teams[teamName]) {
+      lines.push(`Highlights: ${highlights.teams[teamName]}`);
+      lines.push('');
+    }
+
+    lines.push(...renderTextMetrics(teamName, repos, config));
+
+    for (const repo of repos) {
+      lines.push(`* ${repo.repoName}`);
+      lines.push('');
+      lines.push(repo.overallSummary);
+      lines.push('');
+
+      if (repo.breakingChanges.length > 0) {
+        lines.push('!! High-Risk/Breaking Changes:');
+        for (const breakingChange of repo.breakingChanges) {
+          lines.push(`   - PR #${breakingChange.prNumber}: ${breakingChange.description}`);
+        }
+        lines.push('');
+      }
+
+      if (repo.releases && repo.releases.length > 0) {
+        lines.push('Releases:');
+        for (const release of repo.releases) {
+          lines.push(`   - ${describeRelease(release)} (${release.date})`);
+          if (release.notes) {
+            lines.push(`     ${release.notes}`);
+          }
+          if (release.pullRequests.length > 0) {
+            lines.push(`     Includes ${release.pullRequests.map((pr) => `#${pr.number}`).join(', ')}`);
+          }
+          lines.push(`     ${release.url}`);
+        }
+        lines.push('');
+      }
+
+      for (const section of getPullRequestSections(repo)) {
+        lines.push(`${section.title}:`);
+        for (const pr of section.pullRequests) {
+          lines.push(`   - #${pr.number} ${pr.title} (${pr.author}, ${describePullRequestDate(pr).toLowerCase()})`);
+          if (pr.summary) {
+            lines.push(`     ${pr.summary}`);
+          }
+          lines.push(`     ${pr.url}`);
+        }
+        lines.push('');
+      }
+
+      const issues = getIssueSection(teamName, repo, config, startDate, endDate);
+      if (issues && issues.groups.length > 0) {
+        lines.push(`${ISSUES_TITLE}:`);
+        for (const group of issues.groups) {
+          lines.push(`   - ${group.name}: ${describeIssueGroup(group)}`);
+        }
+        lines.push('');
+      }
+      if (issues && issues.oldestOpen.length > 0) {
+        lines.push(`${OLDEST_OPEN_TITLE}:`);
+        for (const issue of issues.oldestOpen) {
+          lines.push(`   - #${issue.number} ${issue.title} (${describeIssueAge(issue)})`);
+          lines.push(`     ${issue.url}`);
+        }
+        lines.push('');
+      }
+    }
+  }
+
+  const spotlight = getSpotlight(groupedSummaries, config, teamOrder, highlights.shoutOuts);
+  if (spotlight) {
+    lines.push(...renderTextSpotlight(spotlight.spotlight, spotlight.shoutOuts));
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,131 @@
+import type { AppConfig, MetricsThresholds } from './config.js';
+import type { RepoSummary } from './openai-agent.js';
+import type { PullRequestMetrics } from './pr-collector.js';
+
+/**
+ * Metrics over the merged PRs of a repo or a whole team, computed from the
+ * GitHub data rather than by the model
+ */
+export interface MetricsSummary {
+  label: string;
+  merged: number;
+  medianCycleTimeHours: number;
+  // Null when no merged PR was reviewed
+  medianFirstReviewHours: number | null;
+  reviewsPerPullRequest: number;
+  additions: number;
+  deletions: number;
+  // Lines added plus deleted
+  medianSize: number;
+  medianChangedFiles: number;
+  unreviewedMerges: number;
+}
+
+export interface MetricsCell {
+  text: string;
+  // Above the configured threshold
+  outlier: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function hoursBetween(from: string, to: string): number {
+  return (new Date(to).getTime() - new Date(from).getTime()) / HOUR_MS;
+}
+
+/**
+ * Summarize the metrics of some merged PRs, or null if there are none
+ */
+export function summarizeMetrics(label: string, metrics: PullRequestMetrics[]): MetricsSummary | null {
+  if (metrics.length === 0) {
+    return null;
+  }
+
+  const reviewed = metrics.filter((pr) => pr.firstReviewAt !== null);
+  return {
+    label,
+    merged: metrics.length,
+    medianCycleTimeHours: median(metrics.map((pr) => hoursBetween(pr.createdAt, pr.mergedAt))),
+    medianFirstReviewHours:
+      reviewed.length > 0 ? median(reviewed.map((pr) => hoursBetween(pr.createdAt, pr.firstReviewAt!))) : null,
+    reviewsPerPullRequest: metrics.reduce((sum, pr) => sum + pr.reviews, 0) / metrics.length,
+    additions: metrics.reduce((sum, pr) => sum + pr.additions, 0),
+    deletions: metrics.reduce((sum, pr) => sum + pr.deletions, 0),
+    medianSize: median(metrics.map((pr) => pr.additions + pr.deletions)),
+    medianChangedFiles: median(metrics.map((pr) => pr.changedFiles)),
+    unreviewedMerges: metrics.filter((pr) => pr.reviews === 0).length
+  };
+}
+
+function repoMetrics(repo: RepoSummary): PullRequestMetrics[] {
+  return repo.pullRequests.flatMap((pr) => (pr.metrics ? [pr.metrics] : []));
+}
+
+/**
+ * "45m", "5.5h" or "3.2d"
+ */
+export function formatHours(hours: number): string {
+  if (hours < 1) return `${Math.round(hours * 60)}m`;
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+function buildMetricsTable(
+  repos: RepoSummary[],
+  thresholds: MetricsThresholds
+): { headings: string[]; rows: MetricsCell[][] } | null {
+  const summaries = repos
+    .map((repo) => summarizeMetrics(repo.repoName, repoMetrics(repo)))
+    .filter((summary): summary is MetricsSummary => summary !== null);
+  if (summaries.length === 0) {
+    return null;
+  }
+  if (summaries.length > 1) {
+    summaries.push(summarizeMetrics('All repos', repos.flatMap(repoMetrics))!);
+  }
+
+  const cell = (text: string, outlier = false): MetricsCell => ({ text, outlier });
+  return {
+    headings: ['Repo', 'Merged', 'Open → merge', 'First review', 'Reviews/PR', 'Lines +/−', 'Lines/PR', 'Files/PR', 'Unreviewed'],
+    rows: summaries.map((summary) => [
+      cell(summary.label),
+      cell(String(summary.merged)),
+      cell(formatHours(summary.medianCycleTimeHours), summary.medianCycleTimeHours > thresholds.cycleTimeHours),
+      summary.medianFirstReviewHours === null
+        ? cell('—')
+        : cell(formatHours(summary.medianFirstReviewHours), summary.medianFirstReviewHours > thresholds.firstReviewHours),
+      cell(formatNumber(summary.reviewsPerPullRequest)),
+      cell(`+${summary.additions}/−${summary.deletions}`),
+      cell(formatNumber(summary.medianSize), summary.medianSize > thresholds.pullRequestSize),
+      cell(formatNumber(summary.medianChangedFiles)),
+      cell(String(summary.unreviewedMerges), summary.unreviewedMerges > thresholds.unreviewedMerges)
+    ])
+  };
+}
+
+/**
+ * The metrics table of a team section: one row per repo with merged PRs,
+ * plus a row for the whole team when it has several, with cells above the
+ * thresholds marked as outliers. Returns null when metrics are turned off
+ * for the team or no repo has any.
+ */
+export function getTeamMetricsTable(
+  teamName: string,
+  repos: RepoSummary[],
+  config: AppConfig
+): { headings: string[]; rows: MetricsCell[][] } | null {
+  if (!config.metrics.enabled || config.teams[teamName]?.sections?.metrics === false) {
+    return null;
+  }
+  return buildMetricsTable(repos, config.metrics.thresholds);
+}
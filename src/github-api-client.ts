@@ -0,0 +1,513 @@
+import { RateLimiter } from "./concurrency.js";
+import type {
+  CommitInfo,
+  GitHubDataSource,
+  IssueInfo,
+  ListCommitsOptions,
+  ListIssuesOptions,
+  ListPullRequestsOptions,
+  PageOptions,
+  PullRequestMetadata,
+  PullRequestSearchResult,
+  ReleaseInfo,
+  RepoRef,
+  TagInfo,
+} from "./github-data-source.js";
+import {
+  listAllPullRequestFiles,
+  toPullRequestInfo,
+  toPullRequestReview,
+} from "./pr-collector.js";
+import type {
+  PullRequestDetails,
+  PullRequestFile,
+  PullRequestInfo,
+  PullRequestReview,
+} from "./pr-collector.js";
+import { isPullRequestItem, toIssueInfo } from "./issue-collector.js";
+import { toReleaseInfo, toTagInfo } from "./release-collector.js";
+import type { GitHubHttpRequest, TrafficFixtures } from "./traffic-recorder.js";
+
+// Rate-limited requests are retried once the limit resets
+const MAX_RATE_LIMIT_ATTEMPTS = 3;
+const RATE_LIMIT_PAUSE_MS = 60 * 1000;
+
+// PRs fetched per GraphQL query, and files included per PR before falling back to REST paging
+const PULL_REQUESTS_PER_QUERY = 25;
+const FILES_PER_PULL_REQUEST = 100;
+
+const JSON_MEDIA_TYPE = "application/vnd.github+json";
+const DIFF_MEDIA_TYPE = "application/vnd.github.diff";
+const RAW_MEDIA_TYPE = "application/vnd.github.raw+json";
+
+// GraphQL reports file changes as enum values, REST as lowercase words
+const CHANGE_TYPES: Record<string, string> = {
+  ADDED: "added",
+  DELETED: "removed",
+  MODIFIED: "modified",
+  RENAMED: "renamed",
+  COPIED: "copied",
+  CHANGED: "changed",
+};
+
+/**
+ * GitHub data fetched straight from the REST and GraphQL APIs, for
+ * environments where the MCP server cannot be run
+ */
+export class GitHubApiClient implements GitHubDataSource {
+  readonly name = "GitHub API";
+  private token: string;
+  private apiUrl: string;
+  private graphqlUrl: string;
+  private rateLimiter: RateLimiter;
+  private fixtures: TrafficFixtures | null;
+
+  constructor(
+    token: string,
+    apiUrl: string,
+    requestsPerMinute?: number,
+    fixtures: TrafficFixtures | null = null
+  ) {
+    this.token = token;
+    this.apiUrl = apiUrl;
+    // GitHub Enterprise Server serves REST under /api/v3 and GraphQL under /api/graphql
+    this.graphqlUrl = /\/api\/v3$/.test(apiUrl)
+      ? apiUrl.replace(/\/api\/v3$/, "/api/graphql")
+      : `${apiUrl}/graphql`;
+    this.rateLimiter = new RateLimiter("GitHub", requestsPerMinute);
+    this.fixtures = fixtures;
+  }
+
+  async connect(): Promise<void> {
+    // Checks the token; rate limit requests do not count against the limit
+    const { resources } = await this.request<any>(
+      "GET",
+      `${this.apiUrl}/rate_limit`
+    );
+    console.error(
+      `  GitHub API: ${resources?.core?.remaining ?? "?"} REST and ${
+        resources?.graphql?.remaining ?? "?"
+      } GraphQL requests remaining`
+    );
+  }
+
+  async disconnect(): Promise<void> {}
+
+  private async request<T>(
+    method: string,
+    url: string,
+    options: { accept?: string; body?: unknown; allowNotFound?: boolean } = {}
+  ): Promise<T> {
+    const recordedRequest: GitHubHttpRequest = {
+      method,
+      url,
+      accept: options.accept || JSON_MEDIA_TYPE,
+      ...(options.body !== undefined ? { body: options.body } : {}),
+    };
+    const label = `${method}-${new URL(url).pathname.split("/").pop()}`;
+    if (this.fixtures?.mode === "replay") {
+      return this.fixtures.replayGitHubRequest<T>(label, recordedRequest);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      await this.rateLimiter.acquire();
+      const response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${this.token}`,
+          Accept: recordedRequest.accept,
+          "X-GitHub-Api-Version": "2022-11-28",
+          "User-Agent": "github-newsletter-generator",
+          ...(options.body !== undefined
+            ? { "Content-Type": "application/json" }
+            : {}),
+        },
+        body:
+          options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      });
+
+      const remainingHeader = response.headers.get("x-ratelimit-remaining");
+      const resetHeader = response.headers.get("x-ratelimit-reset");
+      const remaining =
+        remainingHeader === null ? undefined : Number(remainingHeader);
+      const resetMs = resetHeader
+        ? Math.max(0, Number(resetHeader) * 1000 - Date.now())
+        : undefined;
+      this.rateLimiter.updateFromHeaders(remaining, resetMs, "request");
+
+      // Primary limits report no remaining requests, secondary limits send retry-after
+      const retryAfter = Number(response.headers.get("retry-after")) || 0;
+      if (
+        (response.status === 403 || response.status === 429) &&
+        (remaining === 0 || retryAfter > 0) &&
+        attempt < MAX_RATE_LIMIT_ATTEMPTS
+      ) {
+        this.rateLimiter.pauseFor(
+          retryAfter * 1000 || resetMs || RATE_LIMIT_PAUSE_MS * attempt,
+          "rate limit exceeded"
+        );
+        continue;
+      }
+
+      if (response.status === 404 && options.allowNotFound) {
+        if (this.fixtures?.mode === "record") {
+          this.fixtures.recordGitHubRequest(label, recordedRequest, null);
+        }
+        return null as T;
+      }
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(
+          `GitHub API error ${response.status} for ${method} ${url}: ${text.slice(0, 500)}`
+        );
+      }
+
+      const data = (
+        recordedRequest.accept === DIFF_MEDIA_TYPE ||
+        recordedRequest.accept === RAW_MEDIA_TYPE
+          ? await response.text()
+          : await response.json()
+      ) as T;
+      if (this.fixtures?.mode === "record") {
+        this.fixtures.recordGitHubRequest(label, recordedRequest, data);
+      }
+      return data;
+    }
+  }
+
+  private async graphql<T>(
+    query: string,
+    variables: Record<string, unknown>
+  ): Promise<T> {
+    const result = await this.request<any>("POST", this.graphqlUrl, {
+      body: { query, variables },
+    });
+    if (result.errors?.length) {
+      throw new Error(
+        `GitHub GraphQL error: ${result.errors
+          .map((error: any) => error.message)
+          .join("; ")}`
+      );
+    }
+    return result.data as T;
+  }
+
+  private repoUrl(
+    owner: string,
+    repo: string,
+    path: string,
+    params: Record<string, string | number | undefined> = {}
+  ): string {
+    const search = new URLSearchParams();
+    for (const [name, value] of Object.entries(params)) {
+      if (value !== undefined) search.set(name, String(value));
+    }
+    const query = search.toString();
+    return `${this.apiUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(
+      repo
+    )}${path}${query ? `?${query}` : ""}`;
+  }
+
+  private searchUrl(kind: string, query: string, options: PageOptions): string {
+    const search = new URLSearchParams({
+      q: query,
+      per_page: String(options.perPage),
+      page: String(options.page),
+    });
+    return `${this.apiUrl}/search/${kind}?${search.toString()}`;
+  }
+
+  async listPullRequests(
+    owner: string,
+    repo: string,
+    options: ListPullRequestsOptions
+  ): Promise<PullRequestInfo[]> {
+    const prs = await this.request<any[]>(
+      "GET",
+      this.repoUrl(owner, repo, "/pulls", {
+        state: options.state,
+        sort: options.sort,
+        direction: options.direction,
+        per_page: options.perPage,
+        page: options.page,
+      })
+    );
+    return prs.map(toPullRequestInfo);
+  }
+
+  async getPullRequest(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<PullRequestMetadata> {
+    const data = await this.request<any>(
+      "GET",
+      this.repoUrl(owner, repo, `/pulls/${pullNumber}`)
+    );
+    return {
+      body: data.body || "",
+      additions: data.additions,
+      deletions: data.deletions,
+      changedFiles: data.changed_files,
+    };
+  }
+
+  async listPullRequestFiles(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    options: PageOptions
+  ): Promise<PullRequestFile[]> {
+    const files = await this.request<any[]>(
+      "GET",
+      this.repoUrl(owner, repo, `/pulls/${pullNumber}/files`, {
+        per_page: options.perPage,
+        page: options.page,
+      })
+    );
+    return files.map((file) => ({
+      filename: file.filename,
+      status: file.status || "modified",
+      additions: file.additions || 0,
+      deletions: file.deletions || 0,
+    }));
+  }
+
+  async listPullRequestReviews(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    options: PageOptions
+  ): Promise<PullRequestReview[]> {
+    const reviews = await this.request<any[]>(
+      "GET",
+      this.repoUrl(owner, repo, `/pulls/${pullNumber}/reviews`, {
+        per_page: options.perPage,
+        page: options.page,
+      })
+    );
+    return reviews.map(toPullRequestReview);
+  }
+
+  async getPullRequestDiff(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<string> {
+    return this.request<string>(
+      "GET",
+      this.repoUrl(owner, repo, `/pulls/${pullNumber}`),
+      { accept: DIFF_MEDIA_TYPE }
+    );
+  }
+
+  async listCommits(
+    owner: string,
+    repo: string,
+    options: ListCommitsOptions
+  ): Promise<CommitInfo[]> {
+    const commits = await this.request<any[]>(
+      "GET",
+      this.repoUrl(owner, repo, "/commits", {
+        since: options.since?.toISOString(),
+        until: options.until?.toISOString(),
+        per_page: options.perPage,
+        page: options.page,
+      })
+    );
+    return commits.map((commit) => ({
+      sha: commit.sha,
+      message: commit.commit?.message || "",
+      author: commit.author?.login || commit.commit?.author?.name || "",
+      date: commit.commit?.author?.date || "",
+      url: commit.html_url || "",
+    }));
+  }
+
+  async listIssues(
+    owner: string,
+    repo: string,
+    options: ListIssuesOptions
+  ): Promise<IssueInfo[]> {
+    const issues = await this.request<any[]>(
+      "GET",
+      this.repoUrl(owner, repo, "/issues", {
+        state: options.state,
+        labels: options.labels?.join(","),
+        since: options.since?.toISOString(),
+        sort: options.sort,
+        direction: options.direction,
+        per_page: options.perPage,
+        page: options.page,
+      })
+    );
+    return issues.filter((issue) => !isPullRequestItem(issue)).map(toIssueInfo);
+  }
+
+  async listReleases(
+    owner: string,
+    repo: string,
+    options: PageOptions
+  ): Promise<ReleaseInfo[]> {
+    const releases = await this.request<any[]>(
+      "GET",
+      this.repoUrl(owner, repo, "/releases", {
+        per_page: options.perPage,
+        page: options.page,
+      })
+    );
+    return releases.map(toReleaseInfo);
+  }
+
+  async listTags(
+    owner: string,
+    repo: string,
+    options: PageOptions
+  ): Promise<TagInfo[]> {
+    const tags = await this.request<any[]>(
+      "GET",
+      this.repoUrl(owner, repo, "/tags", {
+        per_page: options.perPage,
+        page: options.page,
+      })
+    );
+    return tags.map(toTagInfo);
+  }
+
+  async searchRepositories(
+    query: string,
+    options: PageOptions
+  ): Promise<RepoRef[]> {
+    const result = await this.request<any>(
+      "GET",
+      this.searchUrl("repositories", query, options)
+    );
+    return (result.items || []).map((repo: any) => ({
+      owner: repo.owner?.login || "",
+      repo: repo.name,
+    }));
+  }
+
+  async listTeamRepositories(
+    organization: string,
+    teamSlug: string,
+    options: PageOptions
+  ): Promise<RepoRef[]> {
+    const search = new URLSearchParams({
+      per_page: String(options.perPage),
+      page: String(options.page),
+    });
+    const repos = await this.request<any[]>(
+      "GET",
+      `${this.apiUrl}/orgs/${encodeURIComponent(
+        organization
+      )}/teams/${encodeURIComponent(teamSlug)}/repos?${search.toString()}`
+    );
+    return repos.map((repo) => ({
+      owner: repo.owner?.login || organization,
+      repo: repo.name,
+    }));
+  }
+
+  async getFileContents(
+    owner: string,
+    repo: string,
+    path: string
+  ): Promise<string | null> {
+    return this.request<string | null>(
+      "GET",
+      this.repoUrl(owner, repo, `/contents/${path}`),
+      { accept: RAW_MEDIA_TYPE, allowNotFound: true }
+    );
+  }
+
+  async searchPullRequests(
+    query: string,
+    options: PageOptions
+  ): Promise<PullRequestSearchResult> {
+    const result = await this.request<any>(
+      "GET",
+      this.searchUrl("issues", query, options)
+    );
+    return {
+      totalCount: result.total_count ?? 0,
+      items: (result.items || []).map((item: any) => {
+        // repository_url looks like https://api.github.com/repos/{owner}/{repo}
+        const [owner, repo] = String(item.repository_url || "")
+          .split("/")
+          .slice(-2);
+        return {
+          owner: owner || "",
+          repo: repo || "",
+          number: item.number,
+          mergedAt: item.pull_request?.merged_at || null,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Fetch descriptions, sizes and files for many PRs with one GraphQL query
+   * per group of PRs instead of two or more REST requests per PR
+   */
+  async getPullRequestDetails(
+    owner: string,
+    repo: string,
+    pullRequests: PullRequestInfo[]
+  ): Promise<PullRequestDetails[]> {
+    const details: PullRequestDetails[] = [];
+
+    for (let i = 0; i < pullRequests.length; i += PULL_REQUESTS_PER_QUERY) {
+      const group = pullRequests.slice(i, i + PULL_REQUESTS_PER_QUERY);
+      const fields = group
+        .map(
+          (pr) => `pr${pr.number}: pullRequest(number: ${pr.number}) {
+      body
+      additions
+      deletions
+      changedFiles
+      files(first: ${FILES_PER_PULL_REQUEST}) {
+        pageInfo { hasNextPage }
+        nodes { path additions deletions changeType }
+      }
+    }`
+        )
+        .join("\n    ");
+      const query = `query($owner: String!, $repo: String!) {
+  repository(owner: $owner, name: $repo) {
+    ${fields}
+  }
+}`;
+
+      const data = await this.graphql<any>(query, { owner, repo });
+      for (const pr of group) {
+        const node = data.repository?.[`pr${pr.number}`];
+        if (!node) {
+          throw new Error(`Could not fetch ${owner}/${repo}#${pr.number}`);
+        }
+
+        // PRs with more files than the query includes are listed through REST
+        const files: PullRequestFile[] = node.files?.pageInfo?.hasNextPage
+          ? await listAllPullRequestFiles(this, owner, repo, pr.number)
+          : (node.files?.nodes || []).map((file: any) => ({
+              filename: file.path,
+              status: CHANGE_TYPES[file.changeType] || "modified",
+              additions: file.additions || 0,
+              deletions: file.deletions || 0,
+            }));
+
+        details.push({
+          ...pr,
+          body: node.body || "",
+          additions: node.additions ?? 0,
+          deletions: node.deletions ?? 0,
+          changedFiles: node.changedFiles ?? files.length,
+          files,
+        });
+      }
+    }
+
+    return details;
+  }
+}
@@ -0,0 +1,230 @@
+import type { AppConfig } from "./config.js";
+import type {
+  PullRequestDetails,
+  PullRequestFile,
+  PullRequestInfo,
+  PullRequestReview,
+} from "./pr-collector.js";
+import type { TrafficFixtures } from "./traffic-recorder.js";
+import { GitHubMCPClient } from "./mcp-client.js";
+import { MCPDataSource } from "./mcp-data-source.js";
+import { GitHubApiClient } from "./github-api-client.js";
+import { MultiOrgDataSource } from "./multi-org-data-source.js";
+
+export interface RepoRef {
+  owner: string;
+  repo: string;
+}
+
+export interface PageOptions {
+  perPage: number;
+  page: number;
+}
+
+export interface ListPullRequestsOptions extends PageOptions {
+  state: "open" | "closed" | "all";
+  sort?: "created" | "updated";
+  direction?: "asc" | "desc";
+}
+
+export interface ListCommitsOptions extends PageOptions {
+  since?: Date;
+  until?: Date;
+}
+
+export interface ListIssuesOptions extends PageOptions {
+  state: "open" | "closed" | "all";
+  // Issues with all of these labels
+  labels?: string[];
+  // Issues updated at or after this time
+  since?: Date;
+  sort?: "created" | "updated";
+  direction?: "asc" | "desc";
+}
+
+// Description and size of a PR, without its file list
+export interface PullRequestMetadata {
+  body: string;
+  additions?: number;
+  deletions?: number;
+  changedFiles?: number;
+}
+
+export interface CommitInfo {
+  sha: string;
+  message: string;
+  author: string;
+  date: string;
+  url: string;
+}
+
+export interface IssueInfo {
+  number: number;
+  title: string;
+  url: string;
+  author: string;
+  labels: string[];
+  createdAt: string;
+  closedAt: string | null;
+}
+
+export interface ReleaseInfo {
+  tagName: string;
+  name: string;
+  body: string;
+  url: string;
+  draft: boolean;
+  prerelease: boolean;
+  createdAt: string;
+  // Null until the release is published
+  publishedAt: string | null;
+}
+
+export interface TagInfo {
+  name: string;
+  // The tagged commit
+  sha: string;
+}
+
+export interface PullRequestSearchItem extends RepoRef {
+  number: number;
+  mergedAt: string | null;
+}
+
+export interface PullRequestSearchResult {
+  totalCount: number;
+  items: PullRequestSearchItem[];
+}
+
+/**
+ * Read access to the GitHub data the newsletter is built from. Methods throw
+ * when GitHub cannot be reached or reports an error.
+ */
+export interface GitHubDataSource {
+  readonly name: string;
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  listPullRequests(
+    owner: string,
+    repo: string,
+    options: ListPullRequestsOptions
+  ): Promise<PullRequestInfo[]>;
+  getPullRequest(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<PullRequestMetadata>;
+  listPullRequestFiles(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    options: PageOptions
+  ): Promise<PullRequestFile[]>;
+  listPullRequestReviews(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    options: PageOptions
+  ): Promise<PullRequestReview[]>;
+  getPullRequestDiff(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<string>;
+  listCommits(
+    owner: string,
+    repo: string,
+    options: ListCommitsOptions
+  ): Promise<CommitInfo[]>;
+  // Issues only, without the PRs GitHub lists alongside them
+  listIssues(
+    owner: string,
+    repo: string,
+    options: ListIssuesOptions
+  ): Promise<IssueInfo[]>;
+  // Newest first
+  listReleases(
+    owner: string,
+    repo: string,
+    options: PageOptions
+  ): Promise<ReleaseInfo[]>;
+  listTags(
+    owner: string,
+    repo: string,
+    options: PageOptions
+  ): Promise<TagInfo[]>;
+  searchRepositories(query: string, options: PageOptions): Promise<RepoRef[]>;
+  // Repos an organization team has been given access to
+  listTeamRepositories(
+    organization: string,
+    teamSlug: string,
+    options: PageOptions
+  ): Promise<RepoRef[]>;
+  // Text of a file on the default branch, or null if there is no such file
+  getFileContents(
+    owner: string,
+    repo: string,
+    path: string
+  ): Promise<string | null>;
+  searchPullRequests(
+    query: string,
+    options: PageOptions
+  ): Promise<PullRequestSearchResult>;
+  // Descriptions, sizes and changed files for several PRs of one repo
+  getPullRequestDetails(
+    owner: string,
+    repo: string,
+    pullRequests: PullRequestInfo[]
+  ): Promise<PullRequestDetails[]>;
+}
+
+function createSingleDataSource(
+  config: AppConfig,
+  token: string,
+  fixtures: TrafficFixtures | null
+): GitHubDataSource {
+  if (config.github.backend === "api") {
+    return new GitHubApiClient(
+      token,
+      config.github.apiUrl,
+      config.concurrency.githubRequestsPerMinute,
+      fixtures
+    );
+  }
+  return new MCPDataSource(
+    new GitHubMCPClient(
+      token,
+      config.concurrency.githubRequestsPerMinute,
+      fixtures
+    )
+  );
+}
+
+/**
+ * The data source for the configured backend. When organizations are read
+ * with tokens of their own, one source is created per token and requests
+ * are routed to them by owner.
+ */
+export function createGitHubDataSource(
+  config: AppConfig,
+  fixtures: TrafficFixtures | null = null
+): GitHubDataSource {
+  const tokenSources = new Map<string, GitHubDataSource>();
+  const sourceFor = (token: string): GitHubDataSource => {
+    const source =
+      tokenSources.get(token) || createSingleDataSource(config, token, fixtures);
+    tokenSources.set(token, source);
+    return source;
+  };
+
+  const ownerSources = new Map<string, GitHubDataSource>();
+  for (const owner of config.github.organizations) {
+    ownerSources.set(owner.name.toLowerCase(), sourceFor(owner.token));
+  }
+  // Owners that are not configured are read with github.token
+  const defaultSource = sourceFor(config.github.token);
+  if (tokenSources.size === 1) {
+    return defaultSource;
+  }
+  return new MultiOrgDataSource(ownerSources, defaultSource);
+}
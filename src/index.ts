@@ -1,153 +1,1003 @@
 #!/usr/bin/env node
 
-import { writeFileSync } from "fs";
-import { subDays } from "date-fns";
-import { loadConfig } from "./config.js";
-import { GitHubMCPClient } from "./mcp-client.js";
-import { OpenAIAgent } from "./openai-agent.js";
-import { groupReposByTeam, getTeamOrder } from "./team-aggregator.js";
+import { readFileSync, writeFileSync } from "fs";
+import { format, subDays } from "date-fns";
+import { loadConfig, selectTeams } from "./config.js";
+import type { AppConfig, OutputFormat } from "./config.js";
+import { parseCliArgs, resolveDateOptions, USAGE } from "./cli.js";
+import type { CliOptions } from "./cli.js";
+import { createGitHubDataSource } from "./github-data-source.js";
+import type { GitHubDataSource } from "./github-data-source.js";
+import { OpenAIAgent, PROMPT_VERSION } from "./openai-agent.js";
+import { SummaryCache } from "./summary-cache.js";
+import { createLLMProvider } from "./llm-provider.js";
+import type { LLMProvider } from "./llm-provider.js";
+import {
+  RecordingLLMProvider,
+  ReplayLLMProvider,
+  TrafficFixtures,
+} from "./traffic-recorder.js";
+import { runWithConcurrency } from "./concurrency.js";
+import {
+  getRepoPullRequestStates,
+  getTeamOrder,
+  groupReposByTeam,
+} from "./team-aggregator.js";
+import { TeamMatcher } from "./team-matcher.js";
 import {
   generateNewsletter,
+  getNewsletterStats,
+  getTeamSections,
+  NO_HIGHLIGHTS,
+  parseNewsletterData,
   writeNewsletterToFile,
 } from "./newsletter-generator.js";
-import { discoverReposWithActivity } from "./repo-discovery.js";
+import type {
+  FailedRepo,
+  NewsletterData,
+  NewsletterHighlights,
+} from "./newsletter-generator.js";
+import {
+  generateHtmlNewsletter,
+  generateTextNewsletter,
+} from "./email-renderer.js";
+import type { TeamGroupedSummaries } from "./team-aggregator.js";
+import {
+  buildNewsletterEmails,
+  sendNewsletterEmails,
+} from "./email-delivery.js";
+import {
+  createTeamMatcher,
+  discoverReposWithActivity,
+  extractReposFromConfig,
+  parseRepoList,
+} from "./repo-discovery.js";
+import type { RepoActivity } from "./repo-discovery.js";
+import {
+  buildSlackMessages,
+  buildTeamsCards,
+  publishToSlack,
+  publishToTeams,
+} from "./chat-publisher.js";
 import type { RepoSummary } from "./openai-agent.js";
+import { NewsletterArchive } from "./newsletter-archive.js";
+import { computeTrends } from "./newsletter-trends.js";
+import { getReportingWindow, useTimezone } from "./report-window.js";
+import type { ReportingWindow } from "./report-window.js";
+import type { NewsletterTrends } from "./newsletter-trends.js";
 
-async function main() {
-  console.log("GitHub Newsletter Generator");
-  console.log("==========================\n");
+function loadRunConfig(options: CliOptions): AppConfig {
+  console.error("Loading configuration...");
+  // Replays, render and history neither call GitHub nor the LLM
+  let config = loadConfig(options.configPath, {
+    offline:
+      Boolean(options.replay) ||
+      options.command === "render" ||
+      options.command === "history",
+    // Dry runs only print what would be sent or posted; validate-config checks every secret
+    deliver:
+      options.command === "validate-config" ||
+      ((options.send || options.post) && !options.dryRun),
+    profile: options.profile,
+  });
+  if (options.teams) {
+    config = selectTeams(config, options.teams);
+  }
+  if (options.concurrency) {
+    config = {
+      ...config,
+      concurrency: { ...config.concurrency, repos: options.concurrency },
+    };
+  }
+  const owners = config.github.organizations.map(({ name }) => name);
+  console.error(
+    `✓ Configuration loaded for ${
+      owners.length > 1 ? "organizations" : "organization"
+    }: ${owners.join(", ")}`
+  );
+  useTimezone(config.window.timezone);
+  if (options.profile) {
+    console.error(`✓ Profile: ${options.profile}`);
+  }
+  console.error(
+    config.window.mode === "rolling"
+      ? `✓ Timeframe: ${config.github.timeframeDays} days`
+      : `✓ Window: ${config.window.mode}`
+  );
+  console.error(`✓ Timezone: ${config.window.timezone}`);
+  console.error(`✓ Model: ${config.llm.model} (${config.llm.provider})\n`);
+  return config;
+}
 
-  try {
-    // Step 1: Load Configuration
-    console.log("Loading configuration...");
-    const config = loadConfig();
-    console.log(
-      `✓ Configuration loaded for organization: ${config.github.organization}`
-    );
-    console.log(`✓ Timeframe: ${config.github.timeframeDays} days`);
-    console.log(`✓ Model: ${config.openai.model}\n`);
+function createTrafficFixtures(options: CliOptions): TrafficFixtures | null {
+  if (options.record) {
+    console.error(`✓ Recording GitHub MCP and LLM traffic to ${options.record}\n`);
+    return new TrafficFixtures(options.record, "record");
+  }
+  if (options.replay) {
+    console.error(`✓ Replaying GitHub MCP and LLM traffic from ${options.replay}\n`);
+    return new TrafficFixtures(options.replay, "replay");
+  }
+  return null;
+}
 
-    // Calculate date range
-    const endDate = new Date();
-    const startDate = subDays(endDate, config.github.timeframeDays);
-    console.log(
-      `Date range: ${startDate.toISOString().split("T")[0]} to ${
-        endDate.toISOString().split("T")[0]
-      }\n`
+/**
+ * Where the last published edition ended, for the since-last-edition window.
+ * An archive with editions but none published means editions are never sent
+ * or posted, so the window would never move on from its fallback.
+ */
+function findLastPublishedEnd(config: AppConfig): Date | undefined {
+  if (config.window.mode !== "since-last-edition") {
+    return undefined;
+  }
+  const archive = new NewsletterArchive(config.archive.directory);
+  const lastPublished = archive.findLastPublished(config.archive.name);
+  if (lastPublished) {
+    return lastPublished.endDate;
+  }
+  if (archive.list(config.archive.name).length > 0) {
+    throw new Error(
+      `None of the editions archived for ${config.archive.name} was published. The since-last-edition window starts after the last edition sent with --send or posted with --post; use another window.mode for runs that only write files`
     );
+  }
+  console.warn(
+    `⚠ No edition archived for ${config.archive.name} yet, covering the last ${config.github.timeframeDays} days instead`
+  );
+  return undefined;
+}
 
-    // Step 2: Initialize MCP Client
-    console.log("Connecting to GitHub MCP...");
-    const mcpClient = new GitHubMCPClient(config.github.token);
-    await mcpClient.connect();
-    console.log("✓ Connected to GitHub MCP\n");
-
-    // Step 3: Discover repositories with activity
-    console.log("Discovering repositories with activity...");
-    const reposWithActivity = await discoverReposWithActivity(
+/**
+ * The window to report on: the dates given on the command line, the window
+ * of the recording being replayed, or else the configured window
+ */
+function resolveDateRange(
+  config: AppConfig,
+  options: CliOptions,
+  fixtures: TrafficFixtures | null
+): ReportingWindow {
+  // A replay reuses the recorded window unless one is given explicitly
+  const recordedRun =
+    fixtures?.mode === "replay" ? fixtures.loadRun() : undefined;
+  const { since, until } = resolveDateOptions(options);
+  let window: ReportingWindow;
+  if (since || until) {
+    const endDate =
+      until || (recordedRun ? new Date(recordedRun.endDate) : new Date());
+    window = {
+      startDate:
+        since ||
+        (recordedRun
+          ? new Date(recordedRun.startDate)
+          : subDays(endDate, config.github.timeframeDays)),
+      endDate,
+      mode: "custom",
+      description: "dates given on the command line",
+    };
+  } else if (recordedRun) {
+    window = {
+      startDate: new Date(recordedRun.startDate),
+      endDate: new Date(recordedRun.endDate),
+      ...(recordedRun.window || {
+        mode: "custom",
+        description: "recorded window",
+      }),
+    };
+  } else {
+    window = getReportingWindow(
       config,
-      mcpClient,
-      startDate,
-      endDate
+      new Date(),
+      findLastPublishedEnd(config)
     );
+  }
+  if (fixtures?.mode === "record") {
+    fixtures.saveRun({
+      startDate: window.startDate.toISOString(),
+      endDate: window.endDate.toISOString(),
+      window: { mode: window.mode, description: window.description },
+    });
+  }
+  console.error(
+    `Date range: ${format(window.startDate, "yyyy-MM-dd HH:mm")} to ${format(
+      window.endDate,
+      "yyyy-MM-dd HH:mm"
+    )} (${config.window.timezone}, ${window.description})\n`
+  );
+  return window;
+}
 
-    if (reposWithActivity.length === 0) {
-      console.log(
-        "⚠ No repositories with PR activity found in the specified timeframe."
-      );
-      console.log("\nThis could mean:");
-      console.log("1. No PRs were merged/closed in the timeframe");
-      console.log("2. The repos specified in config.json don't exist or aren't accessible");
-      console.log("3. Check your GitHub token permissions");
-      await mcpClient.disconnect();
-      process.exit(0);
-    }
+async function connectToGitHub(
+  config: AppConfig,
+  fixtures: TrafficFixtures | null
+): Promise<GitHubDataSource> {
+  const github = createGitHubDataSource(config, fixtures);
+  if (fixtures?.mode === "replay") {
+    return github;
+  }
+  console.error(`Connecting to ${github.name}...`);
+  await github.connect();
+  console.error(`✓ Connected to ${github.name}\n`);
+  return github;
+}
 
-    console.log(
+function createRunLLMProvider(
+  config: AppConfig,
+  fixtures: TrafficFixtures | null
+): LLMProvider {
+  if (fixtures?.mode === "replay") {
+    return new ReplayLLMProvider(config.llm, fixtures);
+  }
+  const provider = createLLMProvider(config.llm);
+  return fixtures ? new RecordingLLMProvider(provider, fixtures) : provider;
+}
+
+function createSummaryCache(
+  config: AppConfig,
+  options: CliOptions
+): SummaryCache | null {
+  const cache = new SummaryCache(
+    config.cache.directory,
+    `${config.llm.provider}/${config.llm.model}`,
+    PROMPT_VERSION
+  );
+  if (options.clearCache) {
+    cache.clear();
+    console.error(`✓ Cleared cache at ${config.cache.directory}`);
+  }
+  if (!config.cache.enabled || options.noCache) {
+    console.error("  Cache disabled for this run");
+    return null;
+  }
+  // Cached summaries would skip LLM calls, leaving gaps in a recording or replay
+  if (options.record || options.replay) {
+    console.error("  Cache disabled while recording or replaying");
+    return null;
+  }
+  return cache;
+}
+
+async function discover(
+  config: AppConfig,
+  options: CliOptions,
+  github: GitHubDataSource,
+  matcher: TeamMatcher,
+  startDate: Date,
+  endDate: Date
+): Promise<RepoActivity[]> {
+  console.error("Discovering repositories with activity...");
+  const reposWithActivity = await discoverReposWithActivity(
+    config,
+    github,
+    startDate,
+    endDate,
+    matcher,
+    options.repos ? parseRepoList(config, options.repos) : undefined
+  );
+
+  if (reposWithActivity.length === 0) {
+    console.error(
+      "⚠ No repositories with PR activity found in the specified timeframe."
+    );
+    console.error("\nThis could mean:");
+    console.error("1. No PRs were merged/closed and nothing was released in the timeframe");
+    console.error("2. The repos specified in config.json don't exist or aren't accessible");
+    console.error("3. Check your GitHub token permissions");
+  } else {
+    console.error(
       `✓ Found ${reposWithActivity.length} repository/repositories with activity\n`
     );
+  }
 
-    // Step 4: Summarize each repository
-    console.log("Summarizing repositories...");
-    const openaiAgent = new OpenAIAgent(config, mcpClient);
-    const repoSummaries: RepoSummary[] = [];
+  return reposWithActivity;
+}
+
+function renderNewsletter(
+  outputFormat: OutputFormat,
+  groupedSummaries: TeamGroupedSummaries,
+  config: AppConfig,
+  window: ReportingWindow,
+  teamOrder: string[],
+  highlights: NewsletterHighlights,
+  trends: NewsletterTrends | null
+): string {
+  switch (outputFormat) {
+    case "html":
+      return generateHtmlNewsletter(groupedSummaries, config, window, teamOrder, highlights, trends);
+    case "text":
+      return generateTextNewsletter(groupedSummaries, config, window, teamOrder, highlights, trends);
+    default:
+      return generateNewsletter(groupedSummaries, config, window, teamOrder, highlights, trends);
+  }
+}
+
+async function deliverNewsletter(
+  config: AppConfig,
+  options: CliOptions,
+  groupedSummaries: TeamGroupedSummaries,
+  window: ReportingWindow,
+  teamOrder: string[],
+  highlights: NewsletterHighlights,
+  trends: NewsletterTrends | null
+): Promise<number> {
+  if (!config.email) {
+    throw new Error("--send requires an \"email\" section in the config");
+  }
+
+  console.error("Sending newsletter emails...");
+  const emails = buildNewsletterEmails(
+    groupedSummaries,
+    config,
+    window,
+    teamOrder,
+    highlights,
+    trends
+  );
+  if (emails.length === 0) {
+    console.error("⚠ No email recipients configured\n");
+    return 0;
+  }
+
+  if (options.dryRun) {
+    for (const email of emails) {
+      console.error(`  Dry run - would send "${email.subject}" to ${email.to.join(", ")}`);
+    }
+    console.error("");
+    return 0;
+  }
 
-    for (const { owner, repo } of reposWithActivity) {
+  const failed = await sendNewsletterEmails(emails, config.email);
+  if (failed > 0) {
+    throw new Error(`${failed} of ${emails.length} newsletter email(s) could not be sent`);
+  }
+  console.error(`✓ Sent ${emails.length} email(s)\n`);
+  return emails.length;
+}
+
+async function postToChat(
+  config: AppConfig,
+  options: CliOptions,
+  groupedSummaries: TeamGroupedSummaries,
+  window: ReportingWindow,
+  highlights: NewsletterHighlights
+): Promise<number> {
+  console.error("Posting team sections to chat...");
+  let posted = 0;
+  let failed = 0;
+
+  for (const [teamName, teamConfig] of Object.entries(config.teams)) {
+    if (!teamConfig.slack && !teamConfig.msTeams) {
+      continue;
+    }
+
+    const repos = groupedSummaries[teamName];
+    if (!repos || repos.length === 0) {
+      console.error(`  - No activity for ${teamName}, skipping chat post`);
+      continue;
+    }
+
+    const targets: Array<{ name: string; publish: () => Promise<number> }> = [];
+    if (teamConfig.slack) {
+      const slackConfig = teamConfig.slack;
+      targets.push({
+        name: "Slack",
+        publish: async () => {
+          const messages = buildSlackMessages(
+            teamName,
+            repos,
+            window,
+            highlights.teams[teamName]
+          );
+          if (!options.dryRun) await publishToSlack(slackConfig, messages);
+          return messages.length;
+        },
+      });
+    }
+    if (teamConfig.msTeams) {
+      const teamsConfig = teamConfig.msTeams;
+      targets.push({
+        name: "Microsoft Teams",
+        publish: async () => {
+          const cards = buildTeamsCards(
+            teamName,
+            repos,
+            window,
+            highlights.teams[teamName]
+          );
+          if (!options.dryRun) await publishToTeams(teamsConfig, cards);
+          return cards.length;
+        },
+      });
+    }
+
+    for (const target of targets) {
       try {
-        console.log(`  Processing ${owner}/${repo}...`);
-        const summary = await openaiAgent.summarizeRepo(
-          owner,
-          repo,
-          startDate,
-          endDate
+        const count = await target.publish();
+        posted++;
+        console.error(
+          `  ${options.dryRun ? "Dry run - would post" : "✓ Posted"} ${teamName} to ${target.name} (${count} message(s))`
         );
-        repoSummaries.push(summary);
-        console.log(`  ✓ Completed ${owner}/${repo}`);
-
-        // Add delay to avoid rate limiting
-        await new Promise((resolve) => setTimeout(resolve, 1000));
       } catch (error) {
+        failed++;
         console.error(
-          `  ✗ Error processing ${owner}/${repo}:`,
+          `  ✗ Error posting ${teamName} to ${target.name}:`,
           error instanceof Error ? error.message : String(error)
         );
-        // Continue with next repo
       }
     }
+  }
 
-    if (repoSummaries.length === 0) {
-      console.log(
-        "⚠ No repositories processed. Please implement repo discovery or specify repos manually."
+  if (failed > 0) {
+    throw new Error(`${failed} chat post(s) failed`);
+  }
+  console.error(`✓ Posted to ${posted} channel(s)\n`);
+  return options.dryRun ? 0 : posted;
+}
+
+function groupSummaries(
+  config: AppConfig,
+  repoSummaries: RepoSummary[]
+): TeamGroupedSummaries {
+  return groupReposByTeam(
+    repoSummaries,
+    config.teams,
+    new TeamMatcher(config.teams, config.teamMatching, {
+      organization: config.github.organization,
+    })
+  );
+}
+
+/**
+ * Write each team's highlights and the org-wide TL;DR from the repo
+ * summaries already generated; a team whose highlights fail is left without
+ */
+async function writeHighlights(
+  config: AppConfig,
+  openaiAgent: OpenAIAgent,
+  repoSummaries: RepoSummary[],
+  window: ReportingWindow
+): Promise<NewsletterHighlights> {
+  console.error("Writing highlights...");
+  const sections = getTeamSections(
+    groupSummaries(config, repoSummaries),
+    getTeamOrder(config)
+  );
+  const highlights: NewsletterHighlights = { teams: {} };
+
+  for (const { teamName, repos } of sections) {
+    if (!config.teams[teamName]) {
+      // Unassigned repos only feed the org-wide TL;DR
+      continue;
+    }
+    try {
+      highlights.teams[teamName] = await openaiAgent.writeTeamHighlights(
+        teamName,
+        repos,
+        window
+      );
+      console.error(`  ✓ Wrote highlights for ${teamName}`);
+    } catch (error) {
+      console.warn(
+        `  ⚠ Could not write highlights for ${teamName}:`,
+        error instanceof Error ? error.message : String(error)
       );
-      console.log("\nTo use this tool:");
-      console.log("1. Implement repo discovery in src/repo-discovery.ts");
-      console.log("2. Or modify src/index.ts to specify repos manually");
-      await mcpClient.disconnect();
-      process.exit(0);
     }
+  }
+
+  try {
+    highlights.org = await openaiAgent.writeOrgSummary(
+      sections.map(({ teamName, repos }) => ({
+        teamName,
+        highlights: highlights.teams[teamName],
+        repos,
+      })),
+      window
+    );
+    console.error("  ✓ Wrote the org-wide TL;DR");
+  } catch (error) {
+    console.warn(
+      "  ⚠ Could not write the org-wide TL;DR:",
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+  console.error("");
 
-    console.log(`✓ Processed ${repoSummaries.length} repositories\n`);
+  return highlights;
+}
 
-    // Step 5: Group by teams
-    console.log("Grouping repositories by teams...");
-    const groupedSummaries = groupReposByTeam(repoSummaries, config.teams);
-    const teamOrder = getTeamOrder(config);
-    console.log(
-      `✓ Grouped into ${Object.keys(groupedSummaries).length} teams\n`
+/**
+ * Compare the edition with the previous ones in the archive, regrouping them
+ * with the current team config
+ */
+function loadTrends(
+  config: AppConfig,
+  groupedSummaries: TeamGroupedSummaries,
+  startDate: Date,
+  endDate: Date,
+  teamOrder: string[]
+): NewsletterTrends | null {
+  const archive = new NewsletterArchive(config.archive.directory);
+  const previous = archive.loadPrevious(
+    config.archive.name,
+    startDate,
+    endDate,
+    config.archive.trendEditions
+  );
+  return computeTrends(
+    groupedSummaries,
+    previous.map((data) => groupSummaries(config, data.summaries)),
+    teamOrder
+  );
+}
+
+async function writeShoutOuts(
+  openaiAgent: OpenAIAgent,
+  repoSummaries: RepoSummary[],
+  window: ReportingWindow
+): Promise<string | null> {
+  console.error("Writing contributor shout-outs...");
+  try {
+    const shoutOuts = await openaiAgent.writeShoutOuts(repoSummaries, window);
+    console.error(
+      shoutOuts ? "✓ Wrote shout-outs\n" : "  Nobody to name, leaving out shout-outs\n"
+    );
+    return shoutOuts;
+  } catch (error) {
+    console.warn(
+      "⚠ Could not write shout-outs:",
+      error instanceof Error ? error.message : String(error)
     );
+    console.error("");
+    return null;
+  }
+}
+
+async function publishNewsletter(
+  config: AppConfig,
+  options: CliOptions,
+  repoSummaries: RepoSummary[],
+  window: ReportingWindow,
+  failedRepos: FailedRepo[] = [],
+  highlights: NewsletterHighlights = NO_HIGHLIGHTS
+): Promise<boolean> {
+  // Group by teams
+  console.error("Grouping repositories by teams...");
+  const groupedSummaries = groupSummaries(config, repoSummaries);
+  const teamOrder = getTeamOrder(config);
+  console.error(
+    `✓ Grouped into ${Object.keys(groupedSummaries).length} teams\n`
+  );
 
-    // Step 6: Generate newsletter
-    console.log("Generating newsletter...");
-    const newsletterContent = generateNewsletter(
+  // Replays stay reproducible by leaving the archive out
+  let trends: NewsletterTrends | null = null;
+  if (config.archive.enabled && !options.replay) {
+    try {
+      trends = loadTrends(config, groupedSummaries, window.startDate, window.endDate, teamOrder);
+      console.error(
+        trends
+          ? `✓ Compared with ${trends.editions} previous edition(s)\n`
+          : "  No previous editions archived, leaving out trends\n"
+      );
+    } catch (error) {
+      console.warn(
+        "⚠ Could not compare with previous editions:",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  // Generate and output the newsletter in each requested format
+  const formats = options.formats || config.output.formats;
+  for (const outputFormat of formats) {
+    console.error(`Generating ${outputFormat} newsletter...`);
+    const newsletterContent = renderNewsletter(
+      outputFormat,
       groupedSummaries,
       config,
+      window,
+      teamOrder,
+      highlights,
+      trends
+    );
+    console.error("✓ Newsletter generated\n");
+
+    if (options.dryRun) {
+      console.error(`Dry run - ${outputFormat} newsletter not written:\n`);
+      console.log(newsletterContent);
+      console.log("");
+    } else {
+      const filename = writeNewsletterToFile(
+        newsletterContent,
+        options.output,
+        outputFormat,
+        formats.length > 1
+      );
+      writeFileSync(filename, newsletterContent, "utf-8");
+      console.error(`✓ Newsletter written to: ${filename}\n`);
+    }
+  }
+
+  // Emails sent and channels posted to
+  let delivered = 0;
+  if (options.send) {
+    delivered += await deliverNewsletter(
+      config,
+      options,
+      groupedSummaries,
+      window,
+      teamOrder,
+      highlights,
+      trends
+    );
+  }
+
+  if (options.post) {
+    delivered += await postToChat(
+      config,
+      options,
+      groupedSummaries,
+      window,
+      highlights
+    );
+  }
+
+  // Display statistics
+  const totalRepos = repoSummaries.length;
+  // Counted after grouping, which leaves out PRs in sections a team hides
+  const { totalPRs } = getNewsletterStats(groupedSummaries);
+  const totalTeams = Object.keys(groupedSummaries).length;
+
+  console.error("Statistics:");
+  console.error(`  - Repositories processed: ${totalRepos}`);
+  console.error(`  - Teams with activity: ${totalTeams}`);
+  console.error(`  - Total PRs included: ${totalPRs}`);
+  if (failedRepos.length > 0) {
+    console.error(
+      `  - Repositories failed: ${failedRepos.length} (${failedRepos
+        .map(({ owner, repo }) => `${owner}/${repo}`)
+        .join(", ")})`
+    );
+  }
+
+  // Whether the newsletter went out by email or chat
+  return delivered > 0;
+}
+
+async function runGenerate(options: CliOptions): Promise<void> {
+  // Step 1: Load Configuration
+  const config = loadRunConfig(options);
+  const fixtures = createTrafficFixtures(options);
+  const window = resolveDateRange(config, options, fixtures);
+  const { startDate, endDate } = window;
+
+  // Step 2: Connect to GitHub
+  const github = await connectToGitHub(config, fixtures);
+
+  try {
+    // Step 3: Discover repositories with activity
+    const cache = createSummaryCache(config, options);
+    const matcher = await createTeamMatcher(config, github, cache);
+    const reposWithActivity = await discover(
+      config,
+      options,
+      github,
+      matcher,
       startDate,
-      endDate,
-      teamOrder
+      endDate
     );
-    console.log("✓ Newsletter generated\n");
+    if (reposWithActivity.length === 0) {
+      return;
+    }
+
+    // Step 4: Summarize each repository
+    console.error("Summarizing repositories...");
+    const openaiAgent = new OpenAIAgent(
+      config,
+      github,
+      cache,
+      createRunLLMProvider(config, fixtures)
+    );
+    const concurrency = config.concurrency.repos;
+    console.error(`  Summarizing up to ${concurrency} repositories at a time`);
+    let finished = 0;
+    const failedRepos: FailedRepo[] = [];
+
+    const results = await runWithConcurrency(
+      reposWithActivity,
+      concurrency,
+      async ({ owner, repo }) => {
+        try {
+          console.error(`  Processing ${owner}/${repo}...`);
+          const summary = await openaiAgent.summarizeRepo(
+            owner,
+            repo,
+            window,
+            getRepoPullRequestStates(owner, repo, config.teams, matcher)
+          );
+          const ownership = matcher.getOwnership(owner, repo);
+          if (Object.keys(ownership).length > 0) {
+            summary.ownership = ownership;
+          }
+          finished++;
+          console.error(
+            `  [${finished}/${reposWithActivity.length}] ✓ Completed ${owner}/${repo}`
+          );
+          return summary;
+        } catch (error) {
+          finished++;
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(
+            `  [${finished}/${reposWithActivity.length}] ✗ Error processing ${owner}/${repo}:`,
+            message
+          );
+          failedRepos.push({ owner, repo, error: message });
+          // Continue with other repos
+          return null;
+        }
+      }
+    );
+    const repoSummaries = results.filter(
+      (summary): summary is RepoSummary => summary !== null
+    );
+
+    if (failedRepos.length > 0) {
+      console.error(
+        `⚠ ${failedRepos.length} repository/repositories failed and are left out of the newsletter:`
+      );
+      for (const { owner, repo, error } of failedRepos) {
+        console.error(`  - ${owner}/${repo}: ${error}`);
+      }
+    }
+
+    if (repoSummaries.length === 0) {
+      console.error("⚠ No repositories could be summarized.");
+      return;
+    }
+
+    console.error(`✓ Processed ${repoSummaries.length} repositories`);
+    if (cache) {
+      const { hits, misses } = cache.getStats();
+      console.error(`✓ Cache: ${hits} hit(s), ${misses} miss(es)`);
+    }
+    console.error("");
+
+    let highlights = config.output.highlights
+      ? await writeHighlights(config, openaiAgent, repoSummaries, window)
+      : NO_HIGHLIGHTS;
+    if (config.spotlight.enabled) {
+      const shoutOuts = await writeShoutOuts(openaiAgent, repoSummaries, window);
+      if (shoutOuts) {
+        highlights = { ...highlights, shoutOuts };
+      }
+    }
 
-    // Step 7: Output newsletter
-    const filename = writeNewsletterToFile(newsletterContent);
-    writeFileSync(filename, newsletterContent, "utf-8");
-    console.log(`✓ Newsletter written to: ${filename}\n`);
+    const data: NewsletterData = {
+      organization: config.github.organization,
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+      summaries: repoSummaries,
+      failedRepos,
+      highlights,
+      window: { mode: window.mode, description: window.description },
+    };
+    if (options.saveData && !options.dryRun) {
+      writeFileSync(options.saveData, JSON.stringify(data, null, 2), "utf-8");
+      console.error(`✓ Newsletter data written to: ${options.saveData}\n`);
+    }
+    // A run narrowed to some teams or repos would replace the full edition
+    // of its window and skew the trends of later editions
+    const partialRun = Boolean(options.teams || options.repos);
+    const archive =
+      config.archive.enabled && !options.dryRun && !options.replay && !partialRun
+        ? new NewsletterArchive(config.archive.directory)
+        : null;
+    if (archive) {
+      const path = archive.save(config.archive.name, { ...data, published: false });
+      console.error(`✓ Edition archived to: ${path}\n`);
+    } else if (partialRun && config.archive.enabled) {
+      console.error("  Run limited with --teams or --repos, not archived\n");
+    }
 
-    // Display statistics
-    const totalRepos = repoSummaries.length;
-    const totalPRs = repoSummaries.reduce(
+    // Steps 5-7: Group, generate, output and deliver the newsletter
+    const delivered = await publishNewsletter(
+      config,
+      options,
+      repoSummaries,
+      window,
+      failedRepos,
+      highlights
+    );
+    // Only editions sent or posted without errors count as published
+    if (delivered) {
+      archive?.save(config.archive.name, { ...data, published: true });
+    }
+  } finally {
+    // Cleanup
+    await github.disconnect();
+  }
+}
+
+async function runDiscover(options: CliOptions): Promise<void> {
+  const config = loadRunConfig(options);
+  const fixtures = createTrafficFixtures(options);
+  const { startDate, endDate } = resolveDateRange(config, options, fixtures);
+  const github = await connectToGitHub(config, fixtures);
+
+  try {
+    const matcher = await createTeamMatcher(
+      config,
+      github,
+      createSummaryCache(config, options)
+    );
+    const reposWithActivity = await discover(
+      config,
+      options,
+      github,
+      matcher,
+      startDate,
+      endDate
+    );
+    for (const { owner, repo, mergedCount, closedUnmergedCount, releaseCount } of reposWithActivity) {
+      console.log(
+        `${owner}/${repo}\t${mergedCount} merged\t${closedUnmergedCount} closed-unmerged${
+          releaseCount ? `\t${releaseCount} release(s)` : ""
+        }`
+      );
+    }
+  } finally {
+    await github.disconnect();
+  }
+}
+
+async function runExplain(options: CliOptions): Promise<void> {
+  const config = loadRunConfig(options);
+  const fixtures = createTrafficFixtures(options);
+  const github = await connectToGitHub(config, fixtures);
+
+  try {
+    const matcher = await createTeamMatcher(
+      config,
+      github,
+      createSummaryCache(config, options)
+    );
+    let repos: Array<{ owner: string; repo: string }>;
+    if (options.repos) {
+      repos = parseRepoList(config, options.repos);
+      await matcher.resolveCodeowners(repos);
+    } else {
+      repos = await extractReposFromConfig(config, github, matcher);
+    }
+    console.error("");
+
+    for (const { owner, repo } of repos) {
+      const { ownership, matches, excludedBy, teams } = matcher.explain(owner, repo);
+      const details = [
+        ownership.topics?.length ? `topics: ${ownership.topics.join(", ")}` : "",
+        ownership.githubTeams?.length ? `GitHub teams: ${ownership.githubTeams.join(", ")}` : "",
+        ownership.codeowners?.length ? `CODEOWNERS: ${ownership.codeowners.join(", ")}` : "",
+      ].filter(Boolean);
+      console.log(`${owner}/${repo}${details.length > 0 ? ` (${details.join("; ")})` : ""}`);
+      for (const match of matches) {
+        const assigned = teams.includes(match.teamName);
+        console.log(
+          `  ${assigned ? "✓" : "-"} ${match.teamName}: ${match.rule} "${match.value}", priority ${match.priority}${
+            assigned ? "" : ` (not assigned, ${teams[0]} ranks first)`
+          }`
+        );
+      }
+      for (const { teamName, value } of excludedBy) {
+        console.log(`  ✗ ${teamName}: excluded by "${value}"`);
+      }
+      if (teams.length === 0) {
+        console.log("  ⚠ No team or code owner matched; listed under Unassigned");
+      }
+    }
+  } finally {
+    await github.disconnect();
+  }
+}
+
+function runValidateConfig(options: CliOptions): void {
+  const config = loadRunConfig(options);
+  const teamNames = Object.keys(config.teams);
+  console.log(`✓ ${teamNames.length} team(s) configured: ${teamNames.join(", ")}`);
+}
+
+async function runRender(options: CliOptions): Promise<void> {
+  const config = loadRunConfig(options);
+
+  let data: NewsletterData;
+  if (options.edition) {
+    const archive = new NewsletterArchive(config.archive.directory);
+    const edition = archive.find(config.archive.name, options.edition);
+    console.error(`Reading archived edition ${edition.id}...`);
+    data = archive.load(edition);
+  } else {
+    console.error(`Reading newsletter data from ${options.input}...`);
+    data = parseNewsletterData(readFileSync(options.input!, "utf-8"));
+  }
+  const { since, until } = resolveDateOptions(options);
+  // Data saved before windows were recorded came from a rolling window
+  const window: ReportingWindow = {
+    startDate: since || new Date(data.startDate),
+    endDate: until || new Date(data.endDate),
+    ...(since || until
+      ? { mode: "custom", description: "dates given on the command line" }
+      : data.window || { mode: "rolling", description: "saved window" }),
+  };
+  console.error(`✓ Loaded ${data.summaries.length} repository summaries\n`);
+
+  await publishNewsletter(
+    config,
+    options,
+    data.summaries,
+    window,
+    data.failedRepos,
+    data.highlights
+  );
+}
+
+function runHistory(options: CliOptions): void {
+  const config = loadRunConfig(options);
+  const archive = new NewsletterArchive(config.archive.directory);
+  const editions = archive.list(config.archive.name);
+  if (editions.length === 0) {
+    console.log(`No editions archived in ${config.archive.directory}`);
+    return;
+  }
+
+  for (const edition of editions) {
+    const { summaries } = archive.load(edition);
+    const totalPRs = summaries.reduce(
       (sum, repo) => sum + repo.pullRequests.length,
       0
     );
-    const totalTeams = Object.keys(groupedSummaries).length;
+    console.log(
+      `${edition.id}\t${summaries.length} repositories\t${totalPRs} pull requests`
+    );
+  }
+}
+
+async function main() {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(
+      `✗ ${error instanceof Error ? error.message : String(error)}\n`
+    );
+    console.error(USAGE);
+    process.exit(1);
+  }
 
-    console.log("Statistics:");
-    console.log(`  - Repositories processed: ${totalRepos}`);
-    console.log(`  - Teams with activity: ${totalTeams}`);
-    console.log(`  - Total PRs included: ${totalPRs}`);
+  if (options.help) {
+    console.log(USAGE);
+    return;
+  }
 
-    // Cleanup
-    await mcpClient.disconnect();
-    console.log("\n✓ Done!");
+  console.error("GitHub Newsletter Generator");
+  console.error("==========================\n");
+
+  try {
+    switch (options.command) {
+      case "generate":
+        await runGenerate(options);
+        break;
+      case "discover":
+        await runDiscover(options);
+        break;
+      case "explain":
+        await runExplain(options);
+        break;
+      case "validate-config":
+        runValidateConfig(options);
+        break;
+      case "render":
+        await runRender(options);
+        break;
+      case "history":
+        runHistory(options);
+        break;
+    }
+    console.error("\n✓ Done!");
   } catch (error) {
     console.error(
       "\n✗ Error:",
@@ -0,0 +1,223 @@
+import { format } from "date-fns";
+import type { AppConfig, IssueLabelMapping } from "./config.js";
+import type { GitHubDataSource, IssueInfo } from "./github-data-source.js";
+import { formatHours, median } from "./engineering-metrics.js";
+import { isWithinTimeframe } from "./pr-collector.js";
+
+export interface RepoIssue {
+  number: number;
+  title: string;
+  url: string;
+  labels: string[];
+  createdAt: string;
+  closedAt: string | null;
+}
+
+/**
+ * A repo's issue data, kept raw so each team's label groups are applied when
+ * the newsletter is rendered
+ */
+export interface RepoIssues {
+  // Issues opened or closed in the window that carry a configured label
+  activity: RepoIssue[];
+  // The oldest open high-priority issues, oldest first
+  oldestOpen: RepoIssue[];
+}
+
+export interface IssueGroupSummary {
+  name: string;
+  opened: number;
+  closed: number;
+  // Null when no issue in the group was closed
+  medianTimeToCloseHours: number | null;
+}
+
+export const ISSUES_TITLE = "Issues";
+export const OLDEST_OPEN_TITLE = "Oldest open high-priority issues";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function toIssueInfo(issue: any): IssueInfo {
+  return {
+    number: issue.number,
+    title: issue.title || "",
+    url: issue.html_url || issue.url || "",
+    author: issue.user?.login || issue.author?.login || "",
+    labels: (issue.labels || []).map((label: any) =>
+      typeof label === "string" ? label : label.name || ""
+    ),
+    createdAt: issue.created_at || issue.createdAt || "",
+    closedAt: issue.closed_at || issue.closedAt || null,
+  };
+}
+
+// GitHub lists PRs as issues too; they carry a pull_request field
+export function isPullRequestItem(issue: any): boolean {
+  return Boolean(issue.pull_request || issue.pullRequest);
+}
+
+function hasAnyLabel(issue: { labels: string[] }, labels: string[]): boolean {
+  const wanted = new Set(labels.map((label) => label.toLowerCase()));
+  return issue.labels.some((label) => wanted.has(label.toLowerCase()));
+}
+
+function toRepoIssue({ number, title, url, labels, createdAt, closedAt }: IssueInfo): RepoIssue {
+  return { number, title, url, labels, createdAt, closedAt };
+}
+
+/**
+ * The label groups for a team's repos: the team's own mapping, or the
+ * global one
+ */
+export function getIssueLabelMapping(
+  config: AppConfig,
+  teamName: string
+): IssueLabelMapping {
+  return config.teams[teamName]?.issueLabels || config.issues.labels;
+}
+
+// Every label that some team counts, so one fetch serves all of them
+function getConfiguredLabels(config: AppConfig): string[] {
+  const mappings = [
+    config.issues.labels,
+    ...Object.values(config.teams).flatMap((team) =>
+      team.issueLabels ? [team.issueLabels] : []
+    ),
+  ];
+  return Array.from(
+    new Set(mappings.flatMap((mapping) => Object.values(mapping).flat()))
+  );
+}
+
+/**
+ * Collect the issues opened or closed in the window that carry a configured
+ * label, and the oldest open issues with a priority label
+ */
+export async function collectIssues(
+  source: GitHubDataSource,
+  owner: string,
+  repo: string,
+  startDate: Date,
+  endDate: Date,
+  config: AppConfig
+): Promise<RepoIssues> {
+  const labels = getConfiguredLabels(config);
+  const activity: RepoIssue[] = [];
+  const perPage = 100;
+
+  // Anything opened or closed in the window was updated since it started
+  for (let page = 1; labels.length > 0; page++) {
+    const issues = await source.listIssues(owner, repo, {
+      state: "all",
+      since: startDate,
+      sort: "updated",
+      direction: "desc",
+      perPage,
+      page,
+    });
+    activity.push(
+      ...issues
+        .filter(
+          (issue) =>
+            hasAnyLabel(issue, labels) &&
+            (isWithinTimeframe(issue.createdAt, startDate, endDate) ||
+              isWithinTimeframe(issue.closedAt, startDate, endDate))
+        )
+        .map(toRepoIssue)
+    );
+    if (issues.length < perPage) {
+      break;
+    }
+  }
+
+  // Labels cannot be combined with "or", so each priority label is listed on its own
+  const { priorityLabels, oldestOpen: limit } = config.issues;
+  const oldestOpen = new Map<number, RepoIssue>();
+  for (const label of limit > 0 ? priorityLabels : []) {
+    const issues = await source.listIssues(owner, repo, {
+      state: "open",
+      labels: [label],
+      sort: "created",
+      direction: "asc",
+      perPage: limit,
+      page: 1,
+    });
+    for (const issue of issues) {
+      oldestOpen.set(issue.number, toRepoIssue(issue));
+    }
+  }
+
+  return {
+    activity,
+    oldestOpen: Array.from(oldestOpen.values())
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .slice(0, limit),
+  };
+}
+
+/**
+ * Issues opened and closed in the window per label group of the team, with
+ * the median time to close, and the oldest open high-priority issues. Returns
+ * null when issues are turned off for the team or there is nothing to show.
+ */
+export function getIssueSection(
+  teamName: string,
+  repo: { issues?: RepoIssues },
+  config: AppConfig,
+  startDate: Date,
+  endDate: Date
+): { groups: IssueGroupSummary[]; oldestOpen: RepoIssue[] } | null {
+  if (
+    !repo.issues ||
+    !config.issues.enabled ||
+    config.teams[teamName]?.sections?.issues === false
+  ) {
+    return null;
+  }
+
+  const groups = Object.entries(getIssueLabelMapping(config, teamName))
+    .map(([name, labels]) => {
+      const issues = repo.issues!.activity.filter((issue) => hasAnyLabel(issue, labels));
+      const closed = issues.filter((issue) =>
+        isWithinTimeframe(issue.closedAt, startDate, endDate)
+      );
+      return {
+        name,
+        opened: issues.filter((issue) =>
+          isWithinTimeframe(issue.createdAt, startDate, endDate)
+        ).length,
+        closed: closed.length,
+        medianTimeToCloseHours:
+          closed.length > 0
+            ? median(
+                closed.map(
+                  (issue) =>
+                    (new Date(issue.closedAt!).getTime() -
+                      new Date(issue.createdAt).getTime()) /
+                    HOUR_MS
+                )
+              )
+            : null,
+      };
+    })
+    .filter((group) => group.opened > 0 || group.closed > 0);
+
+  const { oldestOpen } = repo.issues;
+  return groups.length > 0 || oldestOpen.length > 0
+    ? { groups, oldestOpen }
+    : null;
+}
+
+// "opened 2024-01-02"
+export function describeIssueAge(issue: RepoIssue): string {
+  return `opened ${format(new Date(issue.createdAt), "yyyy-MM-dd")}`;
+}
+
+// "4 opened, 3 closed (median time to close 2.1d)"
+export function describeIssueGroup(group: IssueGroupSummary): string {
+  const timeToClose =
+    group.medianTimeToCloseHours === null
+      ? ""
+      : ` (median time to close ${formatHours(group.medianTimeToCloseHours)})`;
+  return `${group.opened} opened, ${group.closed} closed${timeToClose}`;
+}
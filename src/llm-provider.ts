@@ -0,0 +1,361 @@
+import OpenAI, { AzureOpenAI } from "openai";
+import type { LLMConfig } from "./config.js";
+import { parseResetDuration } from "./concurrency.js";
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export type ChatMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: ToolCall[] }
+  | { role: "tool"; toolCallId: string; content: string };
+
+// A JSON schema the reply must follow
+export interface ResponseSchema {
+  name: string;
+  schema: Record<string, any>;
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  // Ask for a JSON reply matching this schema, returned as the content text
+  responseSchema?: ResponseSchema;
+}
+
+// Remaining budget reported by the provider in its response headers
+export interface RateLimitInfo {
+  kind: "request" | "token";
+  remaining?: number;
+  resetMs?: number;
+}
+
+export interface ChatResponse {
+  content: string;
+  toolCalls: ToolCall[];
+  rateLimits: RateLimitInfo[];
+}
+
+/**
+ * A chat model behind a uniform request/response shape, so summarization and
+ * tool calling work the same way whichever provider is configured
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  chat(request: ChatRequest): Promise<ChatResponse>;
+}
+
+function headerNumber(headers: Headers, name: string): number | undefined {
+  const value = headers.get(name);
+  return value === null ? undefined : Number(value);
+}
+
+/**
+ * OpenAI, Azure OpenAI and OpenAI-compatible servers such as Ollama all speak
+ * the Chat Completions API through the openai SDK
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private client: OpenAI;
+  private structuredOutputs: boolean;
+
+  constructor(
+    name: string,
+    client: OpenAI,
+    model: string,
+    structuredOutputs: boolean
+  ) {
+    this.name = name;
+    this.client = client;
+    this.model = model;
+    this.structuredOutputs = structuredOutputs;
+  }
+
+  // A strict JSON schema where the model supports it, JSON mode otherwise;
+  // replies are validated against the schema either way
+  private responseFormat(
+    schema: ResponseSchema | undefined
+  ): OpenAI.Chat.Completions.ChatCompletionCreateParams["response_format"] {
+    if (!schema) return undefined;
+    if (!this.structuredOutputs) return { type: "json_object" };
+    return {
+      type: "json_schema",
+      json_schema: {
+        name: schema.name,
+        schema: schema.schema,
+        strict: true,
+      },
+    };
+  }
+
+  private toOpenAIMessage(
+    message: ChatMessage
+  ): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+    if (message.role === "tool") {
+      return {
+        role: "tool",
+        tool_call_id: message.toolCallId,
+        content: message.content,
+      };
+    }
+    if (message.role === "assistant" && message.toolCalls?.length) {
+      return {
+        role: "assistant",
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((toolCall) => ({
+          id: toolCall.id,
+          type: "function" as const,
+          function: {
+            name: toolCall.name,
+            arguments: JSON.stringify(toolCall.arguments),
+          },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const { data, response } = await this.client.chat.completions
+      .create({
+        model: this.model,
+        messages: request.messages.map((message) =>
+          this.toOpenAIMessage(message)
+        ),
+        tools: request.tools?.map((tool) => ({
+          type: "function" as const,
+          function: tool,
+        })),
+        response_format: this.responseFormat(request.responseSchema),
+      })
+      .withResponse();
+
+    const message = data.choices[0]?.message;
+    if (!message) {
+      throw new Error(`No response from ${this.name}`);
+    }
+
+    return {
+      content: message.content || "",
+      toolCalls: (message.tool_calls || []).map((toolCall) => ({
+        id: toolCall.id,
+        name: toolCall.function.name,
+        arguments: JSON.parse(toolCall.function.arguments || "{}"),
+      })),
+      rateLimits: [
+        {
+          kind: "request",
+          remaining: headerNumber(response.headers, "x-ratelimit-remaining-requests"),
+          resetMs: parseResetDuration(response.headers.get("x-ratelimit-reset-requests")),
+        },
+        {
+          kind: "token",
+          remaining: headerNumber(response.headers, "x-ratelimit-remaining-tokens"),
+          resetMs: parseResetDuration(response.headers.get("x-ratelimit-reset-tokens")),
+        },
+      ],
+    };
+  }
+}
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const ANTHROPIC_MAX_TOKENS = 4096;
+const ANTHROPIC_MAX_RETRIES = 2;
+
+/**
+ * Anthropic Messages API over fetch
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "Anthropic";
+  readonly model: string;
+  private apiKey: string;
+  private baseUrl: string;
+  private headers: Record<string, string>;
+
+  constructor(config: LLMConfig) {
+    this.model = config.model;
+    this.apiKey = config.apiKey || "";
+    this.baseUrl = (config.baseUrl || "https://api.anthropic.com").replace(/\/$/, "");
+    this.headers = config.headers || {};
+  }
+
+  private toAnthropicMessages(messages: ChatMessage[]): any[] {
+    const converted: any[] = [];
+    for (const message of messages) {
+      if (message.role === "system") continue;
+
+      if (message.role === "tool") {
+        // Tool results are sent back as user content blocks
+        const block = {
+          type: "tool_result",
+          tool_use_id: message.toolCallId,
+          content: message.content,
+        };
+        const previous = converted[converted.length - 1];
+        if (previous && previous.role === "user" && Array.isArray(previous.content)) {
+          previous.content.push(block);
+        } else {
+          converted.push({ role: "user", content: [block] });
+        }
+      } else if (message.role === "assistant" && message.toolCalls?.length) {
+        converted.push({
+          role: "assistant",
+          content: [
+            ...(message.content ? [{ type: "text", text: message.content }] : []),
+            ...message.toolCalls.map((toolCall) => ({
+              type: "tool_use",
+              id: toolCall.id,
+              name: toolCall.name,
+              input: toolCall.arguments,
+            })),
+          ],
+        });
+      } else {
+        converted.push({ role: message.role, content: message.content });
+      }
+    }
+    return converted;
+  }
+
+  private resetMs(headers: Headers, name: string): number | undefined {
+    const reset = headers.get(name);
+    return reset ? Math.max(0, new Date(reset).getTime() - Date.now()) : undefined;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const system = request.messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+      .join("\n\n");
+
+    const tools = (request.tools || []).map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters,
+    }));
+    // Anthropic has no JSON reply mode, so the schema is a tool the model must call
+    const schema = request.responseSchema;
+    if (schema) {
+      tools.push({
+        name: schema.name,
+        description: "Record the reply in the required format",
+        input_schema: schema.schema,
+      });
+    }
+
+    const body = {
+      model: this.model,
+      max_tokens: ANTHROPIC_MAX_TOKENS,
+      system: system || undefined,
+      messages: this.toAnthropicMessages(request.messages),
+      tools: tools.length > 0 ? tools : undefined,
+      tool_choice: schema ? { type: "tool", name: schema.name } : undefined,
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(`${this.baseUrl}/v1/messages`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-api-key": this.apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+          ...this.headers,
+        },
+        body: JSON.stringify(body),
+      });
+
+      // 429 (rate limited) and 529 (overloaded) are worth retrying
+      if ((response.status === 429 || response.status === 529) && attempt < ANTHROPIC_MAX_RETRIES) {
+        const retryAfter = Number(response.headers.get("retry-after")) || 2 ** attempt * 5;
+        await new Promise((resolve) => setTimeout(resolve, retryAfter * 1000));
+        continue;
+      }
+      if (!response.ok) {
+        throw new Error(`Anthropic API error ${response.status}: ${await response.text()}`);
+      }
+
+      const data: any = await response.json();
+      const blocks: any[] = data.content || [];
+      const schemaBlock = schema
+        ? blocks.find((block) => block.type === "tool_use" && block.name === schema.name)
+        : undefined;
+      return {
+        content: schemaBlock
+          ? JSON.stringify(schemaBlock.input)
+          : blocks
+              .filter((block) => block.type === "text")
+              .map((block) => block.text)
+              .join(""),
+        toolCalls: blocks
+          .filter((block) => block.type === "tool_use" && block !== schemaBlock)
+          .map((block) => ({ id: block.id, name: block.name, arguments: block.input || {} })),
+        rateLimits: [
+          {
+            kind: "request",
+            remaining: headerNumber(response.headers, "anthropic-ratelimit-requests-remaining"),
+            resetMs: this.resetMs(response.headers, "anthropic-ratelimit-requests-reset"),
+          },
+          {
+            kind: "token",
+            remaining: headerNumber(response.headers, "anthropic-ratelimit-tokens-remaining"),
+            resetMs: this.resetMs(response.headers, "anthropic-ratelimit-tokens-reset"),
+          },
+        ],
+      };
+    }
+  }
+}
+
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case "azure-openai":
+      return new OpenAICompatibleProvider(
+        "Azure OpenAI",
+        new AzureOpenAI({
+          endpoint: config.baseUrl,
+          apiKey: config.apiKey,
+          apiVersion: config.apiVersion,
+          deployment: config.deployment,
+          defaultHeaders: config.headers,
+        }),
+        config.model,
+        config.structuredOutputs
+      );
+    case "ollama":
+      return new OpenAICompatibleProvider(
+        "Ollama",
+        new OpenAI({
+          baseURL: config.baseUrl,
+          // Ollama ignores the key, but the SDK requires one
+          apiKey: config.apiKey || "ollama",
+          defaultHeaders: config.headers,
+        }),
+        config.model,
+        config.structuredOutputs
+      );
+    case "anthropic":
+      return new AnthropicProvider(config);
+    default:
+      return new OpenAICompatibleProvider(
+        "OpenAI",
+        new OpenAI({
+          apiKey: config.apiKey,
+          baseURL: config.baseUrl,
+          defaultHeaders: config.headers,
+        }),
+        config.model,
+        config.structuredOutputs
+      );
+  }
+}
@@ -1,5 +1,11 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { RateLimiter } from "./concurrency.js";
+import type { TrafficFixtures } from "./traffic-recorder.js";
+
+// GitHub rate-limit errors are retried after a pause that grows with each attempt
+const MAX_RATE_LIMIT_ATTEMPTS = 3;
+const RATE_LIMIT_PAUSE_MS = 60 * 1000;
 
 export interface MCPToolCall {
   name: string;
@@ -18,12 +24,25 @@ export interface MCPToolResult {
 export class GitHubMCPClient {
   private client: Client | null = null;
   private token: string;
-
-  constructor(token: string) {
+  private rateLimiter: RateLimiter;
+  private fixtures: TrafficFixtures | null;
+
+  constructor(
+    token: string,
+    requestsPerMinute?: number,
+    fixtures: TrafficFixtures | null = null
+  ) {
     this.token = token;
+    this.rateLimiter = new RateLimiter("GitHub", requestsPerMinute);
+    this.fixtures = fixtures;
   }
 
   async connect(): Promise<void> {
+    // Replays are served from recorded fixtures, so no server is started
+    if (this.fixtures?.mode === "replay") {
+      return;
+    }
+
     // Initialize MCP client connection to GitHub MCP server
     // According to https://github.com/github/github-mcp-server, the server can be run:
     // 1. Via Docker (default for POC): docker run -i --rm -e GITHUB_PERSONAL_ACCESS_TOKEN=<token> ghcr.io/github/github-mcp-server
@@ -100,7 +119,7 @@ export class GitHubMCPClient {
         const toolNames = toolsResponse.tools
           .map((t: any) => t.name || t)
           .join(", ");
-        console.log("Available MCP tools:", toolNames);
+        console.error("Available MCP tools:", toolNames);
       }
     } catch (error) {
       console.warn(
@@ -111,6 +130,9 @@ export class GitHubMCPClient {
   }
 
   async listAvailableTools(): Promise<string[]> {
+    if (this.fixtures?.mode === "replay") {
+      return [];
+    }
     if (!this.client) {
       throw new Error("MCP client not connected");
     }
@@ -132,6 +154,37 @@ export class GitHubMCPClient {
   async callTool(
     toolName: string,
     args: Record<string, any>
+  ): Promise<MCPToolResult> {
+    if (this.fixtures?.mode === "replay") {
+      return this.fixtures.replayToolCall(toolName, args);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      await this.rateLimiter.acquire();
+      const result = await this.callToolOnce(toolName, args);
+
+      // The MCP server reports GitHub rate limiting as a tool error rather than headers
+      const errorText = result.isError
+        ? result.content.map((item) => item.text || "").join(" ")
+        : "";
+      if (/rate limit/i.test(errorText) && attempt < MAX_RATE_LIMIT_ATTEMPTS) {
+        this.rateLimiter.pauseFor(
+          RATE_LIMIT_PAUSE_MS * attempt,
+          "rate limit exceeded"
+        );
+        continue;
+      }
+
+      if (this.fixtures?.mode === "record") {
+        this.fixtures.recordToolCall(toolName, args, result);
+      }
+      return result;
+    }
+  }
+
+  private async callToolOnce(
+    toolName: string,
+    args: Record<string, any>
   ): Promise<MCPToolResult> {
     if (!this.client) {
       throw new Error("MCP client not connected");
@@ -144,9 +197,9 @@ export class GitHubMCPClient {
         args
       );
 
-      console.log(
-        `MCP: Calling ${actualToolName} with args:`,
-        JSON.stringify(adjustedArgs, null, 2)
+      // Kept to one line so output stays readable when repos run concurrently
+      console.error(
+        `  MCP: Calling ${actualToolName} with args: ${JSON.stringify(adjustedArgs)}`
       );
 
       const result = await this.client.callTool({
@@ -160,7 +213,7 @@ export class GitHubMCPClient {
           text?: string;
           [key: string]: any;
         }>,
-        isError: false,
+        isError: Boolean(result.isError),
       };
     } catch (error) {
       const errorMessage =
@@ -274,6 +327,19 @@ export class GitHubMCPClient {
     });
   }
 
+  async getPullRequestReviews(params: {
+    owner: string;
+    repo: string;
+    pullNumber: number;
+    page?: number;
+    perPage?: number;
+  }): Promise<any> {
+    return this.callTool("pull_request_read", {
+      ...params,
+      method: "reviews",
+    });
+  }
+
   async listCommits(params: {
     owner: string;
     repo: string;
@@ -285,6 +351,37 @@ export class GitHubMCPClient {
     return this.callTool("list_commits", params);
   }
 
+  async searchPullRequests(params: {
+    query: string;
+    sort?: string;
+    order?: "asc" | "desc";
+    perPage?: number;
+    page?: number;
+  }): Promise<MCPToolResult> {
+    // Newer servers expose search_pull_requests, older ones only search_issues;
+    // both accept the same GitHub issue search syntax
+    const possibleToolNames = ["search_pull_requests", "search_issues"];
+
+    for (const toolName of possibleToolNames) {
+      const result = await this.callTool(toolName, params);
+      if (!result.isError) {
+        return result;
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Could not find tool to search pull requests. Tried: ${possibleToolNames.join(
+            ", "
+          )}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
   async listOrgRepositories(params: {
     org: string;
     type?: "all" | "public" | "private" | "forks" | "sources" | "member";
@@ -0,0 +1,361 @@
+import type { GitHubMCPClient, MCPToolResult } from "./mcp-client.js";
+import type {
+  CommitInfo,
+  GitHubDataSource,
+  IssueInfo,
+  ListCommitsOptions,
+  ListIssuesOptions,
+  ListPullRequestsOptions,
+  PageOptions,
+  PullRequestMetadata,
+  PullRequestSearchResult,
+  ReleaseInfo,
+  RepoRef,
+  TagInfo,
+} from "./github-data-source.js";
+import {
+  listAllPullRequestFiles,
+  toPullRequestInfo,
+  toPullRequestReview,
+} from "./pr-collector.js";
+import { isPullRequestItem, toIssueInfo } from "./issue-collector.js";
+import { toReleaseInfo, toTagInfo } from "./release-collector.js";
+import type {
+  PullRequestDetails,
+  PullRequestFile,
+  PullRequestInfo,
+  PullRequestReview,
+} from "./pr-collector.js";
+
+function toolResultText(result: MCPToolResult): string {
+  return result.content
+    .map((item: any) => item.text || JSON.stringify(item))
+    .join("\n");
+}
+
+/**
+ * Parse the JSON payload of an MCP tool result, or null if it is not JSON
+ */
+export function parseToolResultJson(result: MCPToolResult): any | null {
+  if (!result.content || result.content.length === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(toolResultText(result));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a list from an MCP tool result. Servers return either a bare array
+ * or an object wrapping it.
+ */
+export function parseToolResultList(result: MCPToolResult): any[] {
+  const parsed = parseToolResultJson(result);
+  if (!parsed) {
+    return [];
+  }
+  return Array.isArray(parsed)
+    ? parsed
+    : parsed.data ||
+        parsed.items ||
+        parsed.pull_requests ||
+        parsed.repositories ||
+        [];
+}
+
+// Tool errors come back as results, so turn them into exceptions
+function checkResult(result: MCPToolResult, action: string): MCPToolResult {
+  if (result.isError) {
+    throw new Error(`Could not ${action}: ${toolResultText(result)}`);
+  }
+  return result;
+}
+
+/**
+ * GitHub data served by the GitHub MCP server
+ */
+export class MCPDataSource implements GitHubDataSource {
+  readonly name = "GitHub MCP";
+  private mcpClient: GitHubMCPClient;
+
+  constructor(mcpClient: GitHubMCPClient) {
+    this.mcpClient = mcpClient;
+  }
+
+  async connect(): Promise<void> {
+    await this.mcpClient.connect();
+  }
+
+  async disconnect(): Promise<void> {
+    await this.mcpClient.disconnect();
+  }
+
+  async listPullRequests(
+    owner: string,
+    repo: string,
+    options: ListPullRequestsOptions
+  ): Promise<PullRequestInfo[]> {
+    const result = await this.mcpClient.callTool("list_pull_requests", {
+      owner,
+      repo,
+      ...options,
+    });
+    checkResult(result, `list pull requests for ${owner}/${repo}`);
+    return parseToolResultList(result).map(toPullRequestInfo);
+  }
+
+  async getPullRequest(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<PullRequestMetadata> {
+    const result: MCPToolResult = await this.mcpClient.getPullRequest({
+      owner,
+      repo,
+      pullNumber,
+    });
+    const data = result.isError ? null : parseToolResultJson(result);
+    if (!data) {
+      throw new Error(`Could not fetch ${owner}/${repo}#${pullNumber}`);
+    }
+    return {
+      body: data.body || "",
+      additions: data.additions,
+      deletions: data.deletions,
+      changedFiles: data.changed_files ?? data.changedFiles,
+    };
+  }
+
+  async listPullRequestFiles(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    options: PageOptions
+  ): Promise<PullRequestFile[]> {
+    const result: MCPToolResult = await this.mcpClient.getPullRequestFiles({
+      owner,
+      repo,
+      pullNumber,
+      ...options,
+    });
+    checkResult(result, `fetch files for ${owner}/${repo}#${pullNumber}`);
+    return parseToolResultList(result).map((file) => ({
+      filename: file.filename || file.path || "",
+      status: file.status || "modified",
+      additions: file.additions || 0,
+      deletions: file.deletions || 0,
+    }));
+  }
+
+  async listPullRequestReviews(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    options: PageOptions
+  ): Promise<PullRequestReview[]> {
+    const result: MCPToolResult = await this.mcpClient.getPullRequestReviews({
+      owner,
+      repo,
+      pullNumber,
+      ...options,
+    });
+    checkResult(result, `fetch reviews for ${owner}/${repo}#${pullNumber}`);
+    return parseToolResultList(result).map(toPullRequestReview);
+  }
+
+  async getPullRequestDiff(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<string> {
+    const result: MCPToolResult = await this.mcpClient.getPullRequestDiff({
+      owner,
+      repo,
+      pullNumber,
+    });
+    checkResult(result, `fetch the diff for ${owner}/${repo}#${pullNumber}`);
+    return result.content.map((item) => item.text || "").join("\n");
+  }
+
+  async listCommits(
+    owner: string,
+    repo: string,
+    options: ListCommitsOptions
+  ): Promise<CommitInfo[]> {
+    const result = await this.mcpClient.callTool("list_commits", {
+      owner,
+      repo,
+      perPage: options.perPage,
+      page: options.page,
+      ...(options.since ? { since: options.since.toISOString() } : {}),
+      ...(options.until ? { until: options.until.toISOString() } : {}),
+    });
+    checkResult(result, `list commits for ${owner}/${repo}`);
+    return parseToolResultList(result).map((commit) => ({
+      sha: commit.sha || "",
+      message: commit.commit?.message || commit.message || "",
+      author:
+        commit.author?.login || commit.commit?.author?.name || "",
+      date: commit.commit?.author?.date || commit.date || "",
+      url: commit.html_url || commit.url || "",
+    }));
+  }
+
+  async listIssues(
+    owner: string,
+    repo: string,
+    options: ListIssuesOptions
+  ): Promise<IssueInfo[]> {
+    const result = await this.mcpClient.callTool("list_issues", {
+      owner,
+      repo,
+      state: options.state,
+      perPage: options.perPage,
+      page: options.page,
+      ...(options.labels ? { labels: options.labels } : {}),
+      ...(options.since ? { since: options.since.toISOString() } : {}),
+      ...(options.sort ? { sort: options.sort } : {}),
+      ...(options.direction ? { direction: options.direction } : {}),
+    });
+    checkResult(result, `list issues for ${owner}/${repo}`);
+    return parseToolResultList(result)
+      .filter((issue) => !isPullRequestItem(issue))
+      .map(toIssueInfo);
+  }
+
+  async listReleases(
+    owner: string,
+    repo: string,
+    options: PageOptions
+  ): Promise<ReleaseInfo[]> {
+    const result = await this.mcpClient.callTool("list_releases", {
+      owner,
+      repo,
+      ...options,
+    });
+    checkResult(result, `list releases for ${owner}/${repo}`);
+    return parseToolResultList(result).map(toReleaseInfo);
+  }
+
+  async listTags(
+    owner: string,
+    repo: string,
+    options: PageOptions
+  ): Promise<TagInfo[]> {
+    const result = await this.mcpClient.callTool("list_tags", {
+      owner,
+      repo,
+      ...options,
+    });
+    checkResult(result, `list tags for ${owner}/${repo}`);
+    return parseToolResultList(result).map(toTagInfo);
+  }
+
+  async searchRepositories(
+    query: string,
+    options: PageOptions
+  ): Promise<RepoRef[]> {
+    const result = await this.mcpClient.callTool("search_repositories", {
+      query,
+      minimal_output: true,
+      ...options,
+    });
+    checkResult(result, `search repositories for "${query}"`);
+    return parseToolResultList(result).map((repo) => {
+      const [owner, name] = String(repo.full_name || "").split("/");
+      return {
+        owner: repo.owner?.login || owner || "",
+        repo: repo.name || name || "",
+      };
+    });
+  }
+
+  async listTeamRepositories(): Promise<RepoRef[]> {
+    throw new Error(
+      "The GitHub MCP server cannot list team repositories; set github.backend to \"api\" to use githubTeam"
+    );
+  }
+
+  async getFileContents(
+    owner: string,
+    repo: string,
+    path: string
+  ): Promise<string | null> {
+    const result = await this.mcpClient.callTool("get_file_contents", {
+      owner,
+      repo,
+      path,
+    });
+    if (result.isError) {
+      // A missing file is reported as a tool error
+      if (/not found|404/i.test(toolResultText(result))) {
+        return null;
+      }
+      checkResult(result, `read ${path} in ${owner}/${repo}`);
+    }
+    // File contents come back as an embedded resource next to a status message
+    const resource: any = result.content.find(
+      (item: any) => typeof item.resource?.text === "string"
+    );
+    return resource ? resource.resource.text : toolResultText(result);
+  }
+
+  async searchPullRequests(
+    query: string,
+    options: PageOptions
+  ): Promise<PullRequestSearchResult> {
+    const result = await this.mcpClient.searchPullRequests({
+      query,
+      ...options,
+    });
+    const parsed = result.isError ? null : parseToolResultJson(result);
+    if (!parsed) {
+      throw new Error(
+        `Search failed for "${query}": ${toolResultText(result)}`
+      );
+    }
+
+    return {
+      totalCount: parsed.total_count ?? 0,
+      items: (parsed.items || []).map((item: any) => {
+        // repository_url looks like https://api.github.com/repos/{owner}/{repo}
+        const [owner, repo] = String(item.repository_url || "")
+          .split("/")
+          .slice(-2);
+        return {
+          owner: owner || "",
+          repo: repo || "",
+          number: item.number,
+          mergedAt: item.pull_request?.merged_at || null,
+        };
+      }),
+    };
+  }
+
+  // The MCP server has no batched query, so each PR is fetched on its own
+  async getPullRequestDetails(
+    owner: string,
+    repo: string,
+    pullRequests: PullRequestInfo[]
+  ): Promise<PullRequestDetails[]> {
+    const details: PullRequestDetails[] = [];
+    for (const pr of pullRequests) {
+      const metadata = await this.getPullRequest(owner, repo, pr.number);
+      const files = await listAllPullRequestFiles(this, owner, repo, pr.number);
+      details.push({
+        ...pr,
+        body: metadata.body,
+        additions:
+          metadata.additions ?? files.reduce((sum, f) => sum + f.additions, 0),
+        deletions:
+          metadata.deletions ?? files.reduce((sum, f) => sum + f.deletions, 0),
+        changedFiles: metadata.changedFiles ?? files.length,
+        files,
+      });
+    }
+    return details;
+  }
+}
@@ -0,0 +1,181 @@
+import type {
+  CommitInfo,
+  GitHubDataSource,
+  IssueInfo,
+  ListCommitsOptions,
+  ListIssuesOptions,
+  ListPullRequestsOptions,
+  PageOptions,
+  PullRequestMetadata,
+  PullRequestSearchResult,
+  ReleaseInfo,
+  RepoRef,
+  TagInfo,
+} from "./github-data-source.js";
+import type {
+  PullRequestDetails,
+  PullRequestFile,
+  PullRequestInfo,
+  PullRequestReview,
+} from "./pr-collector.js";
+
+/**
+ * The owner a search query is limited to by its org:, user: or repo:
+ * qualifier, or undefined if it has none
+ */
+export function findQueryOwner(query: string): string | undefined {
+  const match = query.match(/(?:^|\s)(?:org|user):(\S+)|(?:^|\s)repo:([^/\s]+)\//);
+  return match ? match[1] || match[2] : undefined;
+}
+
+/**
+ * Sends each request to the data source holding the token for the owner of
+ * the repo it is about, for newsletters spanning organizations that are
+ * read with different tokens. Owners without a source of their own, and
+ * searches not limited to an owner, go to the default source.
+ */
+export class MultiOrgDataSource implements GitHubDataSource {
+  readonly name: string;
+  private sources: Map<string, GitHubDataSource>;
+  private defaultSource: GitHubDataSource;
+
+  // `sources` is keyed by lowercased owner name; owners may share a source
+  constructor(sources: Map<string, GitHubDataSource>, defaultSource: GitHubDataSource) {
+    this.sources = sources;
+    this.defaultSource = defaultSource;
+    this.name = `${defaultSource.name} (${this.distinctSources().length} tokens)`;
+  }
+
+  private distinctSources(): GitHubDataSource[] {
+    return Array.from(new Set([this.defaultSource, ...this.sources.values()]));
+  }
+
+  private sourceFor(owner: string | undefined): GitHubDataSource {
+    return (owner && this.sources.get(owner.toLowerCase())) || this.defaultSource;
+  }
+
+  async connect(): Promise<void> {
+    for (const source of this.distinctSources()) {
+      await source.connect();
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    for (const source of this.distinctSources()) {
+      await source.disconnect();
+    }
+  }
+
+  listPullRequests(
+    owner: string,
+    repo: string,
+    options: ListPullRequestsOptions
+  ): Promise<PullRequestInfo[]> {
+    return this.sourceFor(owner).listPullRequests(owner, repo, options);
+  }
+
+  getPullRequest(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<PullRequestMetadata> {
+    return this.sourceFor(owner).getPullRequest(owner, repo, pullNumber);
+  }
+
+  listPullRequestFiles(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    options: PageOptions
+  ): Promise<PullRequestFile[]> {
+    return this.sourceFor(owner).listPullRequestFiles(owner, repo, pullNumber, options);
+  }
+
+  listPullRequestReviews(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    options: PageOptions
+  ): Promise<PullRequestReview[]> {
+    return this.sourceFor(owner).listPullRequestReviews(owner, repo, pullNumber, options);
+  }
+
+  getPullRequestDiff(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<string> {
+    return this.sourceFor(owner).getPullRequestDiff(owner, repo, pullNumber);
+  }
+
+  listCommits(
+    owner: string,
+    repo: string,
+    options: ListCommitsOptions
+  ): Promise<CommitInfo[]> {
+    return this.sourceFor(owner).listCommits(owner, repo, options);
+  }
+
+  listIssues(
+    owner: string,
+    repo: string,
+    options: ListIssuesOptions
+  ): Promise<IssueInfo[]> {
+    return this.sourceFor(owner).listIssues(owner, repo, options);
+  }
+
+  listReleases(
+    owner: string,
+    repo: string,
+    options: PageOptions
+  ): Promise<ReleaseInfo[]> {
+    return this.sourceFor(owner).listReleases(owner, repo, options);
+  }
+
+  listTags(
+    owner: string,
+    repo: string,
+    options: PageOptions
+  ): Promise<TagInfo[]> {
+    return this.sourceFor(owner).listTags(owner, repo, options);
+  }
+
+  searchRepositories(query: string, options: PageOptions): Promise<RepoRef[]> {
+    return this.sourceFor(findQueryOwner(query)).searchRepositories(query, options);
+  }
+
+  listTeamRepositories(
+    organization: string,
+    teamSlug: string,
+    options: PageOptions
+  ): Promise<RepoRef[]> {
+    return this.sourceFor(organization).listTeamRepositories(
+      organization,
+      teamSlug,
+      options
+    );
+  }
+
+  getFileContents(
+    owner: string,
+    repo: string,
+    path: string
+  ): Promise<string | null> {
+    return this.sourceFor(owner).getFileContents(owner, repo, path);
+  }
+
+  searchPullRequests(
+    query: string,
+    options: PageOptions
+  ): Promise<PullRequestSearchResult> {
+    return this.sourceFor(findQueryOwner(query)).searchPullRequests(query, options);
+  }
+
+  getPullRequestDetails(
+    owner: string,
+    repo: string,
+    pullRequests: PullRequestInfo[]
+  ): Promise<PullRequestDetails[]> {
+    return this.sourceFor(owner).getPullRequestDetails(owner, repo, pullRequests);
+  }
+}
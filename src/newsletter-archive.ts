@@ -0,0 +1,163 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { addHours, format } from "date-fns";
+import { parseNewsletterData } from "./newsletter-generator.js";
+import type { NewsletterData } from "./newsletter-generator.js";
+import type { ReportingWindow } from "./report-window.js";
+
+// Scheduled runs drift a little, so a past window may end shortly after this one starts
+const WINDOW_OVERLAP_HOURS = 12;
+
+export interface ArchivedEdition {
+  // The window, e.g. "2024-01-08_2024-01-15"
+  id: string;
+  path: string;
+  startDate: Date;
+  endDate: Date;
+  published: boolean;
+  // Unknown for editions archived before windows were recorded
+  windowMode?: ReportingWindow["mode"];
+}
+
+/**
+ * Local archive of every edition's structured data, one JSON file per
+ * archive name and window, used for trends and to re-render old editions.
+ * The name stands for the set of owners an edition covers.
+ */
+export class NewsletterArchive {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  private editionsDirectory(name: string): string {
+    return join(this.directory, name);
+  }
+
+  /**
+   * Store an edition, replacing an earlier run over the same window. A window
+   * that was published stays published, so a rerun that delivers nothing
+   * does not hide it from the since-last-edition lookup.
+   */
+  save(name: string, data: NewsletterData): string {
+    const id = `${format(new Date(data.startDate), "yyyy-MM-dd")}_${format(
+      new Date(data.endDate),
+      "yyyy-MM-dd"
+    )}`;
+    const directory = this.editionsDirectory(name);
+    mkdirSync(directory, { recursive: true });
+    const path = join(directory, `${id}.json`);
+    const published = data.published !== false || this.wasPublished(path);
+    writeFileSync(
+      path,
+      JSON.stringify({ ...data, published }, null, 2),
+      "utf-8"
+    );
+    return path;
+  }
+
+  // Whether the edition stored at the path counts as published
+  private wasPublished(path: string): boolean {
+    if (!existsSync(path)) {
+      return false;
+    }
+    try {
+      return JSON.parse(readFileSync(path, "utf-8")).published !== false;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * The editions archived under the name, oldest first
+   */
+  list(name: string): ArchivedEdition[] {
+    const directory = this.editionsDirectory(name);
+    if (!existsSync(directory)) {
+      return [];
+    }
+
+    return readdirSync(directory)
+      .filter((file) => file.endsWith(".json"))
+      .flatMap((file) => {
+        const path = join(directory, file);
+        try {
+          const { startDate, endDate, published, window } = JSON.parse(
+            readFileSync(path, "utf-8")
+          );
+          return [
+            {
+              id: file.replace(/\.json$/, ""),
+              path,
+              startDate: new Date(startDate),
+              endDate: new Date(endDate),
+              published: published !== false,
+              windowMode: window?.mode,
+            },
+          ];
+        } catch (error) {
+          console.warn(
+            `  ⚠ Skipping unreadable archived edition ${path}:`,
+            error instanceof Error ? error.message : String(error)
+          );
+          return [];
+        }
+      })
+      .sort((a, b) => a.endDate.getTime() - b.endDate.getTime());
+  }
+
+  load(edition: ArchivedEdition): NewsletterData {
+    return parseNewsletterData(readFileSync(edition.path, "utf-8"));
+  }
+
+  /**
+   * Find an edition by its id, by the date its window ends (YYYY-MM-DD), or
+   * "latest"
+   */
+  find(name: string, reference: string): ArchivedEdition {
+    const editions = this.list(name);
+    const edition =
+      reference === "latest"
+        ? editions[editions.length - 1]
+        : editions.find(
+            (candidate) =>
+              candidate.id === reference ||
+              format(candidate.endDate, "yyyy-MM-dd") === reference
+          );
+    if (!edition) {
+      throw new Error(
+        `No archived edition "${reference}" for ${name} in ${this.directory}`
+      );
+    }
+    return edition;
+  }
+
+  /**
+   * The published edition whose window ended last, if any, leaving out
+   * editions over dates given on the command line
+   */
+  findLastPublished(name: string): ArchivedEdition | undefined {
+    return this.list(name)
+      .filter((edition) => edition.published && edition.windowMode !== "custom")
+      .pop();
+  }
+
+  /**
+   * The most recent editions whose window ended before the given one started,
+   * newest first
+   */
+  loadPrevious(
+    name: string,
+    startDate: Date,
+    endDate: Date,
+    count: number
+  ): NewsletterData[] {
+    const cutoff = addHours(startDate, WINDOW_OVERLAP_HOURS);
+    return this.list(name)
+      .filter((edition) => edition.endDate <= cutoff && edition.endDate < endDate)
+      .reverse()
+      .slice(0, count)
+      .map((edition) => this.load(edition));
+  }
+}
@@ -1,51 +1,386 @@
-import { format } from 'date-fns';
+import { differenceInCalendarDays, format } from 'date-fns';
 import type { RepoSummary } from './openai-agent.js';
 import type { TeamGroupedSummaries } from './team-aggregator.js';
-import type { AppConfig } from './config.js';
+import type { AppConfig, OutputFormat } from './config.js';
+import type { PullRequestState } from './pr-collector.js';
+import type { RepoRelease } from './release-collector.js';
+import {
+  describeIssueAge,
+  describeIssueGroup,
+  getIssueSection,
+  ISSUES_TITLE,
+  OLDEST_OPEN_TITLE
+} from './issue-collector.js';
+import { getTrendsTable, TRENDS_TITLE } from './newsletter-trends.js';
+import type { ReportingWindow } from './report-window.js';
+import type { NewsletterTrends } from './newsletter-trends.js';
+import { getTeamMetricsTable } from './engineering-metrics.js';
+import {
+  describeReviewers,
+  getContributorSpotlight,
+  getShoutOuts,
+  hasSpotlight,
+  SPOTLIGHT_TITLE
+} from './contributors.js';
+
+type RepoPullRequest = RepoSummary['pullRequests'][number];
+
+/**
+ * Structured data behind a newsletter edition, saved with --save-data and
+ * read back by the render command
+ */
+export interface NewsletterData {
+  organization: string;
+  startDate: string;
+  endDate: string;
+  summaries: RepoSummary[];
+  // Repos left out because they could not be summarized
+  failedRepos?: FailedRepo[];
+  highlights?: NewsletterHighlights;
+  // False until the edition has been sent or posted without errors; editions archived before this was tracked count as published
+  published?: boolean;
+  // How the window was chosen; missing in data saved before windows were configurable
+  window?: Pick<ReportingWindow, 'mode' | 'description'>;
+}
+
+/**
+ * Executive summaries written from the repo summaries: a TL;DR for the whole
+ * organization and a highlights paragraph per team
+ */
+export interface NewsletterHighlights {
+  org?: string;
+  teams: Record<string, string>;
+  // Contributor spotlight shout-outs, one "- " line each
+  shoutOuts?: string;
+}
+
+export const NO_HIGHLIGHTS: NewsletterHighlights = { teams: {} };
+
+interface PeriodTitles {
+  title: string;
+  orgSummary: string;
+  // How prose refers to the window, as in "this week"
+  period: string;
+}
+
+// Titles for windows that cover a named period
+const PERIOD_TITLES: Record<string, PeriodTitles> = {
+  week: { title: 'Weekly Newsletter', orgSummary: 'This Week in Engineering', period: 'week' },
+  month: { title: 'Monthly Newsletter', orgSummary: 'This Month in Engineering', period: 'month' },
+  sprint: { title: 'Sprint Newsletter', orgSummary: 'This Sprint in Engineering', period: 'sprint' }
+};
+
+const DEFAULT_TITLES: PeriodTitles = {
+  title: 'Engineering Newsletter',
+  orgSummary: 'Engineering Highlights',
+  period: 'period'
+};
+
+// A rolling window of seven days reads as a week
+function getPeriodTitles(window: ReportingWindow): PeriodTitles {
+  const period =
+    window.mode === 'rolling' && differenceInCalendarDays(window.endDate, window.startDate) === 7 ? 'week' : window.mode;
+  return PERIOD_TITLES[period] || DEFAULT_TITLES;
+}
+
+export interface FailedRepo {
+  owner: string;
+  repo: string;
+  error: string;
+}
+
+/**
+ * Read saved newsletter data, filling in the PR state and date for data saved
+ * before PRs had a state, when every PR was a merged one, and moving repo
+ * topics saved on their own into the repo's ownership
+ */
+export function parseNewsletterData(json: string): NewsletterData {
+  const data = JSON.parse(json) as NewsletterData;
+  for (const summary of data.summaries) {
+    const legacySummary = summary as RepoSummary & { topics?: string[] };
+    if (legacySummary.topics) {
+      summary.ownership = { topics: legacySummary.topics, ...summary.ownership };
+      delete legacySummary.topics;
+    }
+    summary.pullRequests = summary.pullRequests.map((pr) => {
+      const legacy = pr as RepoPullRequest & { mergedDate?: string };
+      return { ...pr, state: pr.state || 'merged', date: pr.date || legacy.mergedDate || '' };
+    });
+  }
+  return data;
+}
+
+// Subsections of a repo's PR list, in the order they are shown
+const PULL_REQUEST_SECTIONS: Array<{ state: PullRequestState; title: string }> = [
+  { state: 'merged', title: 'Merged' },
+  { state: 'closed', title: 'Closed Without Merging' },
+  { state: 'open', title: 'In Flight' }
+];
+
+/**
+ * A repo's PRs split into the merged, closed-unmerged and in-flight
+ * subsections, leaving out empty ones
+ */
+export function getPullRequestSections(
+  repo: RepoSummary
+): Array<{ state: PullRequestState; title: string; pullRequests: RepoPullRequest[] }> {
+  return PULL_REQUEST_SECTIONS.map(({ state, title }) => ({
+    state,
+    title,
+    pullRequests: repo.pullRequests.filter((pr) => pr.state === state)
+  })).filter((section) => section.pullRequests.length > 0);
+}
+
+/**
+ * When a PR was merged, closed or opened, e.g. "Merged 2024-01-15" or
+ * "Opened 2024-01-02, awaiting review"
+ */
+export function describePullRequestDate(pr: RepoPullRequest): string {
+  switch (pr.state) {
+    case 'merged':
+      return `Merged ${pr.date}`;
+    case 'closed':
+      return `Closed ${pr.date}`;
+    case 'open':
+      return `Opened ${pr.date}${pr.reviewRequested ? ', awaiting review' : ''}`;
+  }
+}
+
+/**
+ * A release's title, e.g. "v1.2.0 - Spring release (pre-release)" or
+ * "v1.2.1 (tag)"
+ */
+export function describeRelease(release: RepoRelease): string {
+  const kind = release.tagOnly ? ' (tag)' : release.prerelease ? ' (pre-release)' : '';
+  return `${release.tagName}${release.name ? ` - ${release.name}` : ''}${kind}`;
+}
+
+function generateReleases(repo: RepoSummary): string[] {
+  if (!repo.releases || repo.releases.length === 0) {
+    return [];
+  }
+
+  const lines = ['**Releases:**'];
+  for (const release of repo.releases) {
+    lines.push(`- [${describeRelease(release)}](${release.url}) - ${release.date}`);
+    if (release.notes) {
+      lines.push(`  Notes: ${release.notes}`);
+    }
+    if (release.pullRequests.length > 0) {
+      lines.push(`  Includes: ${release.pullRequests.map((pr) => `[#${pr.number}](${pr.url})`).join(', ')}`);
+    }
+  }
+  lines.push('');
+  return lines;
+}
+
+function generateIssues(teamName: string, repo: RepoSummary, config: AppConfig, startDate: Date, endDate: Date): string[] {
+  const section = getIssueSection(teamName, repo, config, startDate, endDate);
+  if (!section) {
+    return [];
+  }
+
+  const lines: string[] = [];
+  if (section.groups.length > 0) {
+    lines.push(`**${ISSUES_TITLE}:**`);
+    for (const group of section.groups) {
+      lines.push(`- ${group.name}: ${describeIssueGroup(group)}`);
+    }
+    lines.push('');
+  }
+  if (section.oldestOpen.length > 0) {
+    lines.push(`**${OLDEST_OPEN_TITLE}:**`);
+    for (const issue of section.oldestOpen) {
+      lines.push(`- [#${issue.number}](${issue.url}) ${issue.title} - ${describeIssueAge(issue)}`);
+    }
+    lines.push('');
+  }
+  return lines;
+}
+
+/**
+ * The edition's title, named after the period its window covers, e.g.
+ * "Monthly Newsletter - January 2024"
+ */
+export function getNewsletterTitle(window: ReportingWindow): string {
+  const dates =
+    window.mode === 'month'
+      ? format(window.startDate, 'MMMM yyyy')
+      : `${format(window.startDate, 'MMM d, yyyy')} to ${format(window.endDate, 'MMM d, yyyy')}`;
+  return `${getPeriodTitles(window).title} - ${dates}`;
+}
+
+// Heading of the org-wide TL;DR, e.g. "This Month in Engineering"
+export function getOrgSummaryTitle(window: ReportingWindow): string {
+  return getPeriodTitles(window).orgSummary;
+}
+
+// How prose refers to the window, e.g. "month" in "3 breaking changes this month"
+export function getPeriodName(window: ReportingWindow): string {
+  return getPeriodTitles(window).period;
+}
+
+/**
+ * Distinct repos and PRs in the edition; with teamMatching "all" a repo can
+ * be listed under several teams but is counted once
+ */
+export function getNewsletterStats(groupedSummaries: TeamGroupedSummaries): { totalRepos: number; totalPRs: number } {
+  const repos = Object.values(groupedSummaries).flat();
+  const totalRepos = new Set(repos.map((repo) => `${repo.owner}/${repo.repoName}`)).size;
+  const totalPRs = new Set(repos.flatMap((repo) => repo.pullRequests.map((pr) => pr.url))).size;
+  return { totalRepos, totalPRs };
+}
+
+/**
+ * Teams with at least one repo, in the order they should appear
+ */
+export function getTeamSections(
+  groupedSummaries: TeamGroupedSummaries,
+  teamOrder: string[]
+): Array<{ teamName: string; repos: RepoSummary[] }> {
+  return teamOrder
+    .filter((teamName) => groupedSummaries[teamName] && groupedSummaries[teamName].length > 0)
+    .map((teamName) => ({ teamName, repos: groupedSummaries[teamName] }));
+}
+
+function generateTrendsSection(trends: NewsletterTrends, period: string): string[] {
+  const { headings, rows } = getTrendsTable(trends, period);
+  const lines = [`## ${TRENDS_TITLE}`, ''];
+  lines.push(`| ${headings.join(' | ')} |`);
+  lines.push(`|${headings.map(() => '---').join('|')}|`);
+  for (const row of rows) {
+    lines.push(`| ${row.join(' | ')} |`);
+  }
+  lines.push('');
+
+  if (trends.newRepos.length > 0) {
+    lines.push(`**New this ${period}:** ${trends.newRepos.join(', ')}`);
+    lines.push('');
+  }
+  if (trends.quietRepos.length > 0) {
+    lines.push(`**Went quiet:** ${trends.quietRepos.join(', ')}`);
+    lines.push('');
+  }
+  return lines;
+}
+
+function generateMetricsTable(teamName: string, repos: RepoSummary[], config: AppConfig): string[] {
+  const table = getTeamMetricsTable(teamName, repos, config);
+  if (!table) {
+    return [];
+  }
+
+  const lines = ['**Metrics (merged PRs):**', ''];
+  lines.push(`| ${table.headings.join(' | ')} |`);
+  lines.push(`|${table.headings.map(() => '---').join('|')}|`);
+  for (const row of table.rows) {
+    lines.push(`| ${row.map((cell) => (cell.outlier ? `⚠ ${cell.text}` : cell.text)).join(' | ')} |`);
+  }
+  lines.push('');
+  return lines;
+}
+
+function generateSpotlightSection(
+  groupedSummaries: TeamGroupedSummaries,
+  config: AppConfig,
+  teamOrder: string[],
+  shoutOuts: string | undefined
+): string[] {
+  if (!config.spotlight.enabled) {
+    return [];
+  }
+  const spotlight = getContributorSpotlight(groupedSummaries, teamOrder, config.spotlight);
+  const shoutOutLines = getShoutOuts(shoutOuts, config.spotlight);
+  if (shoutOutLines.length === 0 && !hasSpotlight(spotlight)) {
+    return [];
+  }
+
+  const lines = [`## ${SPOTLIGHT_TITLE}`, ''];
+  if (shoutOutLines.length > 0) {
+    lines.push('**Shout-outs:**', ...shoutOutLines.map((line) => `- ${line}`), '');
+  }
+  if (spotlight.firstTimeContributors.length > 0) {
+    lines.push('**First-time contributors:**');
+    for (const { login, repoName, prNumber, url } of spotlight.firstTimeContributors) {
+      lines.push(`- @${login} in ${repoName} ([PR #${prNumber}](${url}))`);
+    }
+    lines.push('');
+  }
+  const reviewerTeams = spotlight.teams.filter((team) => team.reviewers.length > 0);
+  if (reviewerTeams.length > 0) {
+    lines.push('**Top reviewers:**');
+    for (const { teamName, reviewers } of reviewerTeams) {
+      lines.push(`- ${teamName}: ${describeReviewers(reviewers)}`);
+    }
+    lines.push('');
+  }
+  const coAuthorTeams = spotlight.teams.filter((team) => team.coAuthors.length > 0);
+  if (coAuthorTeams.length > 0) {
+    lines.push('**Co-authors:**');
+    for (const { teamName, coAuthors } of coAuthorTeams) {
+      lines.push(`- ${teamName}: ${coAuthors.join(', ')}`);
+    }
+    lines.push('');
+  }
+  return lines;
+}
 
 export function generateNewsletter(
   groupedSummaries: TeamGroupedSummaries,
   config: AppConfig,
-  startDate: Date,
-  endDate: Date,
-  teamOrder: string[]
+  window: ReportingWindow,
+  teamOrder: string[],
+  highlights: NewsletterHighlights = NO_HIGHLIGHTS,
+  trends: NewsletterTrends | null = null
 ): string {
+  const { startDate, endDate } = window;
   const lines: string[] = [];
 
   // Header
-  lines.push(`# Weekly Newsletter - ${format(startDate, 'MMM d, yyyy')} to ${format(endDate, 'MMM d, yyyy')}`);
+  lines.push(`# ${getNewsletterTitle(window)}`);
   lines.push('');
 
   // Calculate statistics
-  const totalRepos = Object.values(groupedSummaries).reduce((sum, repos) => sum + repos.length, 0);
-  const totalPRs = Object.values(groupedSummaries).reduce(
-    (sum, repos) => sum + repos.reduce((repoSum, repo) => repoSum + repo.pullRequests.length, 0),
-    0
-  );
+  const { totalRepos, totalPRs } = getNewsletterStats(groupedSummaries);
 
   lines.push(`**Summary:** ${totalRepos} repositories with ${totalPRs} pull requests`);
   lines.push('');
 
-  // Generate team sections
-  for (const teamName of teamOrder) {
-    const repos = groupedSummaries[teamName];
-    if (!repos || repos.length === 0) {
-      continue; // Skip teams with no repos
-    }
+  if (highlights.org) {
+    lines.push(`## ${getOrgSummaryTitle(window)}`);
+    lines.push('');
+    lines.push(highlights.org);
+    lines.push('');
+  }
+
+  if (trends) {
+    lines.push(...generateTrendsSection(trends, getPeriodName(window)));
+  }
 
+  // Generate team sections
+  for (const { teamName, repos } of getTeamSections(groupedSummaries, teamOrder)) {
     lines.push(`## ${teamName}`);
     lines.push('');
 
+    if (highlights.teams[teamName]) {
+      lines.push(`**Highlights:** ${highlights.teams[teamName]}`);
+      lines.push('');
+    }
+
+    lines.push(...generateMetricsTable(teamName, repos, config));
+
     for (const repo of repos) {
       lines.push(`### ${repo.repoName}`);
       lines.push('');
       lines.push(repo.overallSummary);
       lines.push('');
 
-      if (repo.pullRequests.length > 0) {
-        lines.push('**Pull Requests:**');
-        for (const pr of repo.pullRequests) {
-          lines.push(`- PR #${pr.number}: ${pr.title} (${pr.author}) - Merged: ${pr.mergedDate} - [Link](${pr.url})`);
+      lines.push(...generateReleases(repo));
+
+      for (const section of getPullRequestSections(repo)) {
+        lines.push(`**${section.title}:**`);
+        for (const pr of section.pullRequests) {
+          lines.push(`- PR #${pr.number}: ${pr.title} (${pr.author}) - ${describePullRequestDate(pr)} - [Link](${pr.url})`);
           if (pr.summary) {
             lines.push(`  Summary: ${pr.summary}`);
           }
@@ -53,6 +388,8 @@ export function generateNewsletter(
         lines.push('');
       }
 
+      lines.push(...generateIssues(teamName, repo, config, startDate, endDate));
+
       if (repo.breakingChanges.length > 0) {
         lines.push('**High-Risk/Breaking Changes:**');
         for (const breakingChange of repo.breakingChanges) {
@@ -66,15 +403,37 @@ export function generateNewsletter(
     }
   }
 
+  lines.push(...generateSpotlightSection(groupedSummaries, config, teamOrder, highlights.shoutOuts));
+
   return lines.join('\n');
 }
 
-export function writeNewsletterToFile(content: string, outputPath?: string): string {
+const FORMAT_EXTENSIONS: Record<OutputFormat, string> = {
+  markdown: '.md',
+  html: '.html',
+  text: '.txt'
+};
+
+/**
+ * The file the newsletter is written to in the selected format (markdown,
+ * html or text): the --output path, or a timestamped name with the format's
+ * extension. The caller writes the content to it.
+ */
+export function writeNewsletterToFile(
+  content: string,
+  outputPath?: string,
+  outputFormat: OutputFormat = 'markdown',
+  multipleFormats = false
+): string {
+  const extension = FORMAT_EXTENSIONS[outputFormat];
   const timestamp = format(new Date(), 'yyyyMMdd-HHmmss');
-  const filename = outputPath || `newsletter-${timestamp}.md`;
-  
-  // In a real implementation, you would use fs.writeFileSync here
-  // For now, we'll return the filename and let the caller handle writing
+  let filename = outputPath || `newsletter-${timestamp}${extension}`;
+
+  // When several formats are written from one --output path, each gets its own extension
+  if (outputPath && multipleFormats) {
+    filename = outputPath.replace(/\.[^./\\]*$/, '') + extension;
+  }
+
   return filename;
 }
 
@@ -0,0 +1,102 @@
+import type { RepoSummary } from './openai-agent.js';
+import type { TeamGroupedSummaries } from './team-aggregator.js';
+
+export const TRENDS_TITLE = 'Trends';
+
+export interface TeamTrend {
+  teamName: string;
+  pullRequests: number;
+  // PRs in the previous edition
+  lastEdition: number;
+  // Average over the previous editions compared against
+  average: number;
+}
+
+/**
+ * How this edition compares with the previous ones in the archive
+ */
+export interface NewsletterTrends {
+  // Number of previous editions compared against, most recent first
+  editions: number;
+  teams: TeamTrend[];
+  // Repos with activity in the previous edition but none in this one
+  quietRepos: string[];
+  // Repos with activity in this edition and in none of the previous ones
+  newRepos: string[];
+}
+
+function countPullRequests(repos: RepoSummary[] | undefined): number {
+  return (repos || []).reduce((sum, repo) => sum + repo.pullRequests.length, 0);
+}
+
+function repoNames(groupedSummaries: TeamGroupedSummaries): Set<string> {
+  return new Set(
+    Object.values(groupedSummaries)
+      .flat()
+      .map((repo) => `${repo.owner}/${repo.repoName}`)
+  );
+}
+
+/**
+ * Compare an edition with previous ones, grouped by the same team config so
+ * that changes to the team rules do not show up as trends. Returns null when
+ * there is nothing to compare against.
+ */
+export function computeTrends(
+  current: TeamGroupedSummaries,
+  previous: TeamGroupedSummaries[],
+  teamOrder: string[]
+): NewsletterTrends | null {
+  if (previous.length === 0) {
+    return null;
+  }
+
+  const teams = teamOrder
+    .filter((teamName) => [current, ...previous].some((grouped) => grouped[teamName]?.length))
+    .map((teamName) => ({
+      teamName,
+      pullRequests: countPullRequests(current[teamName]),
+      lastEdition: countPullRequests(previous[0][teamName]),
+      average:
+        previous.reduce((sum, grouped) => sum + countPullRequests(grouped[teamName]), 0) / previous.length
+    }));
+
+  const currentRepos = repoNames(current);
+  const lastRepos = repoNames(previous[0]);
+  const previousRepos = new Set(previous.flatMap((grouped) => Array.from(repoNames(grouped))));
+
+  return {
+    editions: previous.length,
+    teams,
+    quietRepos: Array.from(lastRepos).filter((repo) => !currentRepos.has(repo)).sort(),
+    newRepos: Array.from(currentRepos).filter((repo) => !previousRepos.has(repo)).sort()
+  };
+}
+
+/**
+ * The previous edition's PR count and the change since, e.g. "8 (+4)"
+ */
+function describeChange(current: number, previous: number): string {
+  const change = current - previous;
+  return `${previous} (${change > 0 ? '+' : change === 0 ? '±' : ''}${change})`;
+}
+
+function formatAverage(average: number): string {
+  return Number.isInteger(average) ? String(average) : average.toFixed(1);
+}
+
+/**
+ * Column headings and cells of the per-team trends table, shared by the
+ * Markdown, HTML and plain-text renderers
+ */
+export function getTrendsTable(trends: NewsletterTrends, period: string): { headings: string[]; rows: string[][] } {
+  return {
+    headings: ['Team', 'PRs', `Last ${period}`, `${trends.editions}-${period} average`],
+    rows: trends.teams.map((team) => [
+      team.teamName,
+      String(team.pullRequests),
+      describeChange(team.pullRequests, team.lastEdition),
+      formatAverage(team.average)
+    ])
+  };
+}
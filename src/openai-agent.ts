@@ -1,39 +1,164 @@
-import OpenAI from "openai";
+import Ajv from "ajv";
 import type { AppConfig } from "./config.js";
-import { GitHubMCPClient } from "./mcp-client.js";
+import type { GitHubDataSource } from "./github-data-source.js";
+import type { RepoOwnership } from "./team-matcher.js";
 import { format } from "date-fns";
+import { RateLimiter } from "./concurrency.js";
+import { createLLMProvider } from "./llm-provider.js";
+import { getOrgSummaryTitle, getPeriodName } from "./newsletter-generator.js";
+import type { ReportingWindow } from "./report-window.js";
+import type {
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  LLMProvider,
+} from "./llm-provider.js";
+import {
+  collectPullRequestDetails,
+  collectPullRequestReviews,
+  getPullRequestMetrics,
+  getPullRequestState,
+  listClosedPullRequests,
+  listOpenPullRequests,
+  toPullRequestVersion,
+} from "./pr-collector.js";
+import type {
+  PullRequestDetails,
+  PullRequestInfo,
+  PullRequestMetrics,
+  PullRequestReview,
+  PullRequestState,
+} from "./pr-collector.js";
+import {
+  describeCoAuthor,
+  getReviewers,
+  isBot,
+  isFirstContribution,
+  isNameable,
+  listCoAuthors,
+} from "./contributors.js";
+import type { CoAuthor } from "./contributors.js";
+import { collectReleases, findReleasePullRequests } from "./release-collector.js";
+import type { CollectedRelease, RepoRelease } from "./release-collector.js";
+import { collectIssues } from "./issue-collector.js";
+import type { RepoIssues } from "./issue-collector.js";
+import type {
+  CachedPullRequestSummary,
+  SummaryCache,
+} from "./summary-cache.js";
+
+// Bump whenever the prompts change so cached summaries are regenerated
+export const PROMPT_VERSION = "4";
 
 export interface RepoSummary {
   repoName: string;
   owner: string;
+  // Topics, team access and CODEOWNERS that team rules match on, kept so saved data can be regrouped
+  ownership?: RepoOwnership;
   overallSummary: string;
   pullRequests: Array<{
     number: number;
     title: string;
     author: string;
-    mergedDate: string;
+    state: PullRequestState;
+    // Merge or close date, or for open PRs the date they were opened
+    date: string;
     url: string;
     summary: string;
+    reviewRequested?: boolean;
+    // Merged PRs only, when metrics are enabled
+    metrics?: PullRequestMetrics;
+    // Merged PRs only, when the contributor spotlight is enabled
+    reviewers?: string[];
+    // The author's first merged PR in the repo
+    firstContribution?: boolean;
   }>;
+  // Co-authors credited on the window's commits, when the contributor spotlight is enabled
+  coAuthors?: CoAuthor[];
+  // Releases and tags published in the window, newest first
+  releases?: RepoRelease[];
+  // Labelled issues opened or closed in the window, when the issues section is enabled
+  issues?: RepoIssues;
   breakingChanges: Array<{
     prNumber: number;
     description: string;
   }>;
 }
 
+// What the model writes for a batch of PRs; all metadata comes from GitHub
+interface BatchSummary {
+  overallSummary: string;
+  pullRequests: Array<{ number: number; summary: string }>;
+  breakingChanges: Array<{ prNumber: number; description: string }>;
+}
+
+// Sent to the model as the required reply format, so it avoids keywords that
+// strict structured output modes reject
+const BATCH_SUMMARY_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["overallSummary", "pullRequests", "breakingChanges"],
+  properties: {
+    overallSummary: { type: "string" },
+    pullRequests: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["number", "summary"],
+        properties: {
+          number: { type: "integer" },
+          summary: { type: "string" },
+        },
+      },
+    },
+    breakingChanges: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["prNumber", "description"],
+        properties: {
+          prNumber: { type: "integer" },
+          description: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+const validateBatchSummary = new Ajv({ allErrors: true }).compile<BatchSummary>(
+  BATCH_SUMMARY_SCHEMA
+);
+
+// Times the model is shown its validation errors and asked to fix its reply
+const MAX_REPAIR_ATTEMPTS = 2;
+
 export class OpenAIAgent {
-  private openai: OpenAI;
-  private mcpClient: GitHubMCPClient;
+  private llm: LLMProvider;
+  private github: GitHubDataSource;
   private config: AppConfig;
-  private readonly MAX_TOOL_RESULT_TOKENS = 5000; // Limit tool results to avoid token limits
-  private readonly MAX_TOTAL_MESSAGE_TOKENS = 20000; // Limit total message context
+  private cache: SummaryCache | null;
+  private rateLimiter: RateLimiter;
+  private readonly MAX_BODY_TOKENS = 500; // Limit each PR description
+  private readonly MAX_FILES_PER_PR = 50; // Limit the file list sent per PR
+  private readonly MAX_BATCH_TOKENS = 20000; // Limit PR data sent per request
+  private readonly MAX_RELEASE_NOTES_TOKENS = 1500; // Limit each release's notes
 
-  constructor(config: AppConfig, mcpClient: GitHubMCPClient) {
+  constructor(
+    config: AppConfig,
+    github: GitHubDataSource,
+    cache: SummaryCache | null = null,
+    llm: LLMProvider = createLLMProvider(config.llm)
+  ) {
     this.config = config;
-    this.openai = new OpenAI({
-      apiKey: config.openai.apiKey,
-    });
-    this.mcpClient = mcpClient;
+    this.cache = cache;
+    this.llm = llm;
+    this.rateLimiter = new RateLimiter(
+      llm.name,
+      config.concurrency.llmRequestsPerMinute
+    );
+    this.github = github;
   }
 
   // Rough token estimation: ~4 characters per token
@@ -54,224 +179,732 @@ export class OpenAIAgent {
     return truncated + "\n\n[Content truncated due to size limits...]";
   }
 
+  /**
+   * Send a chat request through the shared rate limiter, pausing all requests
+   * when the provider reports the request or token budget is used up
+   */
+  private async chat(request: ChatRequest): Promise<ChatResponse> {
+    await this.rateLimiter.acquire();
+    const response = await this.llm.chat(request);
+    for (const limit of response.rateLimits) {
+      this.rateLimiter.updateFromHeaders(
+        limit.remaining,
+        limit.resetMs,
+        limit.kind
+      );
+    }
+    return response;
+  }
+
   async summarizeRepo(
     owner: string,
     repo: string,
-    startDate: Date,
-    endDate: Date
+    window: ReportingWindow,
+    states: PullRequestState[] = ["merged", "closed", "open"]
   ): Promise<RepoSummary> {
-    const systemPrompt = this.buildSystemPrompt(
+    const { startDate, endDate } = window;
+    // Step 1: Collect the PR list from GitHub, skipping states no team shows
+    const closedPullRequests = await listClosedPullRequests(
+      this.github,
       owner,
       repo,
       startDate,
       endDate
     );
-    const userPrompt = this.buildUserPrompt(owner, repo, startDate, endDate);
-
-    // Define available tools for OpenAI
-    const tools = [
-      {
-        type: "function" as const,
-        function: {
-          name: "mcp_GitHub_list_pull_requests",
-          description: "List pull requests for a repository",
-          parameters: {
-            type: "object",
-            properties: {
-              owner: { type: "string" },
-              repo: { type: "string" },
-              state: { type: "string", enum: ["open", "closed", "all"] },
-              base: { type: "string" },
-              perPage: { type: "number" },
-              page: { type: "number" },
-            },
-            required: ["owner", "repo"],
-          },
-        },
-      },
-      {
-        type: "function" as const,
-        function: {
-          name: "mcp_GitHub_get_pull_request",
-          description: "Get details of a specific pull request",
-          parameters: {
-            type: "object",
-            properties: {
-              owner: { type: "string" },
-              repo: { type: "string" },
-              pullNumber: { type: "number" },
-            },
-            required: ["owner", "repo", "pullNumber"],
-          },
-        },
-      },
-      {
-        type: "function" as const,
-        function: {
-          name: "mcp_GitHub_get_pull_request_diff",
-          description: "Get the diff of a pull request",
-          parameters: {
-            type: "object",
-            properties: {
-              owner: { type: "string" },
-              repo: { type: "string" },
-              pullNumber: { type: "number" },
-            },
-            required: ["owner", "repo", "pullNumber"],
-          },
-        },
-      },
-      {
-        type: "function" as const,
-        function: {
-          name: "mcp_GitHub_get_pull_request_files",
-          description: "Get files changed in a pull request",
-          parameters: {
-            type: "object",
-            properties: {
-              owner: { type: "string" },
-              repo: { type: "string" },
-              pullNumber: { type: "number" },
-              page: { type: "number" },
-              perPage: { type: "number" },
-            },
-            required: ["owner", "repo", "pullNumber"],
-          },
-        },
-      },
-      {
-        type: "function" as const,
-        function: {
-          name: "mcp_GitHub_list_commits",
-          description: "List commits for a repository or pull request",
-          parameters: {
-            type: "object",
-            properties: {
-              owner: { type: "string" },
-              repo: { type: "string" },
-              sha: { type: "string" },
-              author: { type: "string" },
-              perPage: { type: "number" },
-              page: { type: "number" },
-            },
-            required: ["owner", "repo"],
-          },
-        },
-      },
-    ];
+    if (!closedPullRequests) {
+      throw new Error(`Could not list pull requests for ${owner}/${repo}`);
+    }
+    const pullRequests = closedPullRequests.filter((pr) =>
+      pr.mergedAt
+        ? states.includes("merged")
+        : states.includes("closed") &&
+          this.config.github.activity !== "merged"
+    );
+    if (states.includes("open")) {
+      try {
+        pullRequests.push(
+          ...(await listOpenPullRequests(
+            this.github,
+            owner,
+            repo,
+            endDate,
+            this.config.github.openPullRequests
+          ))
+        );
+      } catch (error) {
+        console.warn(
+          `  [${owner}/${repo}] ⚠ Could not list open PRs:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+    if (pullRequests.length === 0) {
+      // Repos can be active through their releases alone
+      const repoSummary: RepoSummary = {
+        repoName: repo,
+        owner,
+        overallSummary: "No pull requests were closed or merged in this period.",
+        pullRequests: [],
+        breakingChanges: [],
+      };
+      if (this.config.releases.enabled) {
+        await this.collectRepoReleases(repoSummary, startDate, endDate);
+      }
+      if (this.config.issues.enabled) {
+        await this.collectRepoIssues(repoSummary, startDate, endDate);
+      }
+      return repoSummary;
+    }
 
-    let messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userPrompt },
-    ];
+    const summaries = new Map<number, CachedPullRequestSummary>();
+    const pending: PullRequestInfo[] = [];
+    for (const pr of pullRequests) {
+      const cachedSummary = this.cache?.getSummary(
+        toPullRequestVersion(owner, repo, pr)
+      );
+      if (cachedSummary) {
+        summaries.set(pr.number, cachedSummary);
+      } else {
+        pending.push(pr);
+      }
+    }
+    console.error(
+      `  [${owner}/${repo}] ${pullRequests.length} PR(s) in timeframe, ${pending.length} to summarize`
+    );
 
-    let maxIterations = 20;
-    let iteration = 0;
+    // Step 2: Fetch details for the PRs that need a summary, and for merged
+    // PRs when metrics are computed from their size
+    const metricsEnabled = this.config.metrics.enabled;
+    const fetchedDetails = await collectPullRequestDetails(
+      this.github,
+      owner,
+      repo,
+      pullRequests.filter(
+        (pr) => pending.includes(pr) || (metricsEnabled && pr.mergedAt)
+      ),
+      this.cache
+    );
+    const details = fetchedDetails.filter((pr) =>
+      pending.some((pendingPr) => pendingPr.number === pr.number)
+    );
 
-    while (iteration < maxIterations) {
-      // Check total message size and truncate if needed
-      const totalMessageSize = messages.reduce((sum, msg) => {
-        const content =
-          typeof msg.content === "string"
-            ? msg.content
-            : JSON.stringify(msg.content);
-        return sum + this.estimateTokens(content);
-      }, 0);
+    // Step 3: Have the model summarize the PR data, in batches if it is large
+    let overallSummary: string | undefined;
+    const batches = this.batchPullRequests(details);
+    for (const batch of batches) {
+      // A single batch also writes the repo summary, using any cached PR summaries as context
+      const batchSummary = await this.summarizeBatch(
+        owner,
+        repo,
+        window,
+        batch,
+        batches.length === 1
+          ? this.describeSummaries(pullRequests, summaries)
+          : null
+      );
+      if (batches.length === 1) {
+        overallSummary = batchSummary.overallSummary;
+      }
 
-      if (totalMessageSize > this.MAX_TOTAL_MESSAGE_TOKENS) {
-        console.warn(
-          `  Message context is large (${totalMessageSize} tokens), truncating older messages...`
-        );
-        // Keep system prompt and last few messages, remove middle ones
-        const systemMsg = messages[0];
-        const lastMessages = messages.slice(-5); // Keep last 5 messages
-        messages = [systemMsg, ...lastMessages];
+      for (const pr of batch) {
+        const entry: CachedPullRequestSummary = {
+          summary:
+            batchSummary.pullRequests.find((p) => p.number === pr.number)
+              ?.summary || "",
+          breakingChanges: batchSummary.breakingChanges
+            .filter((change) => change.prNumber === pr.number)
+            .map((change) => change.description),
+        };
+        summaries.set(pr.number, entry);
+        this.cache?.setSummary(toPullRequestVersion(owner, repo, pr), entry);
       }
+    }
 
-      const response = await this.openai.chat.completions.create({
-        model: this.config.openai.model,
-        messages,
-        tools,
-        tool_choice: "auto",
+    // Step 4: Write the repo summary from the PR summaries if it was not written above
+    const versions = pullRequests.map((pr) =>
+      toPullRequestVersion(owner, repo, pr)
+    );
+    if (!overallSummary) {
+      overallSummary =
+        this.cache?.getOverallSummary(versions) ||
+        (await this.writeOverallSummary(
+          owner,
+          repo,
+          getPeriodName(window),
+          pullRequests,
+          summaries
+        ));
+    }
+    this.cache?.setOverallSummary(versions, overallSummary);
+
+    // Step 5: Compute metrics and find the reviewers of the merged PRs in
+    // code, not by the model
+    const spotlightEnabled = this.config.spotlight.enabled;
+    const reviews =
+      metricsEnabled || spotlightEnabled
+        ? await this.collectReviews(
+            owner,
+            repo,
+            pullRequests.filter((pr) => pr.mergedAt)
+          )
+        : null;
+    const metrics = new Map<number, PullRequestMetrics>();
+    const reviewers = new Map<number, string[]>();
+    if (reviews) {
+      for (const pr of fetchedDetails.filter((pr) => pr.mergedAt)) {
+        const prReviews = reviews.get(pr.number) || [];
+        if (metricsEnabled) {
+          metrics.set(pr.number, getPullRequestMetrics(pr, prReviews));
+        }
+        if (spotlightEnabled) {
+          reviewers.set(pr.number, getReviewers(pr.author, prReviews));
+        }
+      }
+    }
+
+    const repoSummary = this.buildRepoSummary(
+      owner,
+      repo,
+      overallSummary,
+      pullRequests,
+      summaries,
+      metrics,
+      reviewers
+    );
+    if (spotlightEnabled) {
+      await this.collectContributors(repoSummary, startDate, endDate);
+    }
+    if (this.config.releases.enabled) {
+      await this.collectRepoReleases(repoSummary, startDate, endDate);
+    }
+    if (this.config.issues.enabled) {
+      await this.collectRepoIssues(repoSummary, startDate, endDate);
+    }
+    return repoSummary;
+  }
+
+  /**
+   * Reviews of the merged PRs, or null if they cannot be fetched, in which
+   * case the repo is summarized without metrics or reviewers
+   */
+  private async collectReviews(
+    owner: string,
+    repo: string,
+    merged: PullRequestInfo[]
+  ): Promise<Map<number, PullRequestReview[]> | null> {
+    try {
+      return await collectPullRequestReviews(
+        this.github,
+        owner,
+        repo,
+        merged,
+        this.cache
+      );
+    } catch (error) {
+      console.warn(
+        `  [${owner}/${repo}] ⚠ Could not fetch reviews, leaving out metrics and reviewers:`,
+        error instanceof Error ? error.message : String(error)
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Mark each author's first merged PR in the repo and collect the window's
+   * co-authors; either is left out if GitHub cannot tell
+   */
+  private async collectContributors(
+    repoSummary: RepoSummary,
+    startDate: Date,
+    endDate: Date
+  ): Promise<void> {
+    const { owner, repoName } = repoSummary;
+    try {
+      const checked = new Set<string>();
+      // Oldest first, so an author's earliest PR in the window is the one marked
+      for (const pr of [...repoSummary.pullRequests].reverse()) {
+        if (
+          pr.state !== "merged" ||
+          checked.has(pr.author) ||
+          isBot(pr.author, this.config.spotlight)
+        ) {
+          continue;
+        }
+        checked.add(pr.author);
+        if (
+          await isFirstContribution(
+            this.github,
+            this.cache,
+            owner,
+            repoName,
+            pr.author,
+            startDate
+          )
+        ) {
+          pr.firstContribution = true;
+        }
+      }
+    } catch (error) {
+      console.warn(
+        `  [${owner}/${repoName}] ⚠ Could not check for first-time contributors:`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    try {
+      const coAuthors = await listCoAuthors(
+        this.github,
+        owner,
+        repoName,
+        startDate,
+        endDate
+      );
+      if (coAuthors.length > 0) {
+        repoSummary.coAuthors = coAuthors;
+      }
+    } catch (error) {
+      console.warn(
+        `  [${owner}/${repoName}] ⚠ Could not list co-authors:`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  /**
+   * Add the releases and tags published in the window, with their notes
+   * condensed by the model and the merged PRs the notes mention; they are
+   * left out if GitHub cannot list them
+   */
+  private async collectRepoReleases(
+    repoSummary: RepoSummary,
+    startDate: Date,
+    endDate: Date
+  ): Promise<void> {
+    const { owner, repoName } = repoSummary;
+    let collected: CollectedRelease[];
+    try {
+      collected = await collectReleases(
+        this.github,
+        owner,
+        repoName,
+        startDate,
+        endDate,
+        this.config.releases.tags
+      );
+    } catch (error) {
+      console.warn(
+        `  [${owner}/${repoName}] ⚠ Could not list releases:`,
+        error instanceof Error ? error.message : String(error)
+      );
+      return;
+    }
+    if (collected.length === 0) {
+      return;
+    }
+
+    const merged = repoSummary.pullRequests
+      .filter((pr) => pr.state === "merged")
+      .map(({ number, url }) => ({ number, url }));
+    const releases: RepoRelease[] = [];
+    for (const { body, ...release } of collected) {
+      const notes = body.trim()
+        ? await this.condenseReleaseNotes(owner, repoName, release.tagName, body)
+        : null;
+      releases.push({
+        ...release,
+        ...(notes ? { notes } : {}),
+        pullRequests: findReleasePullRequests(body, merged),
       });
+    }
+    repoSummary.releases = releases;
+  }
 
-      const message = response.choices[0]?.message;
-      if (!message) {
-        throw new Error("No response from OpenAI");
+  /**
+   * Add the labelled issues opened or closed in the window and the oldest
+   * open high-priority issues; they are left out if GitHub cannot list them
+   */
+  private async collectRepoIssues(
+    repoSummary: RepoSummary,
+    startDate: Date,
+    endDate: Date
+  ): Promise<void> {
+    const { owner, repoName } = repoSummary;
+    try {
+      repoSummary.issues = await collectIssues(
+        this.github,
+        owner,
+        repoName,
+        startDate,
+        endDate,
+        this.config
+      );
+    } catch (error) {
+      console.warn(
+        `  [${owner}/${repoName}] ⚠ Could not list issues:`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  /**
+   * Condense release notes to a sentence or two, or null if the model cannot,
+   * in which case the release is shown without notes
+   */
+  private async condenseReleaseNotes(
+    owner: string,
+    repo: string,
+    tagName: string,
+    body: string
+  ): Promise<string | null> {
+    try {
+      return await this.writeHighlights(
+        `You are an AI assistant helping to write a newsletter entry for a release of GitHub repository ${owner}/${repo}.`,
+        `Condense the release notes of ${tagName} into 1-2 sentences on what changed, leaving out contributor lists, changelog links and PR numbers. Reply with the sentences only.
+
+${this.truncateContent(body, this.MAX_RELEASE_NOTES_TOKENS)}`
+      );
+    } catch (error) {
+      console.warn(
+        `  [${owner}/${repo}] ⚠ Could not condense the notes of ${tagName}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+      return null;
+    }
+  }
+
+  private buildRepoSummary(
+    owner: string,
+    repo: string,
+    overallSummary: string,
+    pullRequests: PullRequestInfo[],
+    summaries: Map<number, CachedPullRequestSummary>,
+    metrics: Map<number, PullRequestMetrics>,
+    reviewers: Map<number, string[]>
+  ): RepoSummary {
+    const sorted = [...pullRequests].sort((a, b) => b.number - a.number);
+    return {
+      repoName: repo,
+      owner,
+      overallSummary,
+      pullRequests: sorted.map((pr) => {
+        const state = getPullRequestState(pr);
+        return {
+          number: pr.number,
+          title: pr.title,
+          author: pr.author,
+          state,
+          date: format(
+            new Date(pr.mergedAt || pr.closedAt || pr.createdAt || pr.updatedAt),
+            "yyyy-MM-dd"
+          ),
+          url: pr.url,
+          summary: summaries.get(pr.number)?.summary || "",
+          ...(state === "open" ? { reviewRequested: pr.reviewRequested } : {}),
+          ...(metrics.has(pr.number) ? { metrics: metrics.get(pr.number) } : {}),
+          ...(reviewers.has(pr.number) ? { reviewers: reviewers.get(pr.number) } : {}),
+        };
+      }),
+      breakingChanges: sorted.flatMap((pr) =>
+        (summaries.get(pr.number)?.breakingChanges || []).map(
+          (description) => ({ prNumber: pr.number, description })
+        )
+      ),
+    };
+  }
+
+  // The structured view of a PR that is sent to the model
+  private toPromptData(pr: PullRequestDetails): Record<string, any> {
+    const files = pr.files
+      .slice(0, this.MAX_FILES_PER_PR)
+      .map(
+        (file) =>
+          `${file.status} ${file.filename} (+${file.additions}/-${file.deletions})`
+      );
+    if (pr.files.length > this.MAX_FILES_PER_PR) {
+      files.push(
+        `... and ${pr.files.length - this.MAX_FILES_PER_PR} more files`
+      );
+    }
+
+    return {
+      number: pr.number,
+      title: pr.title,
+      author: pr.author,
+      state: this.describeState(pr),
+      description: this.truncateContent(pr.body, this.MAX_BODY_TOKENS),
+      additions: pr.additions,
+      deletions: pr.deletions,
+      changedFiles: pr.changedFiles,
+      files,
+    };
+  }
+
+  private describeState(pr: PullRequestInfo): string {
+    switch (getPullRequestState(pr)) {
+      case "merged":
+        return "merged";
+      case "closed":
+        return "closed without merging";
+      case "open":
+        return pr.reviewRequested ? "open, awaiting review" : "open";
+    }
+  }
+
+  private batchPullRequests(
+    details: PullRequestDetails[]
+  ): PullRequestDetails[][] {
+    const batches: PullRequestDetails[][] = [];
+    let current: PullRequestDetails[] = [];
+    let currentTokens = 0;
+
+    for (const pr of details) {
+      const tokens = this.estimateTokens(
+        JSON.stringify(this.toPromptData(pr))
+      );
+      if (
+        current.length > 0 &&
+        currentTokens + tokens > this.MAX_BATCH_TOKENS
+      ) {
+        batches.push(current);
+        current = [];
+        currentTokens = 0;
       }
+      current.push(pr);
+      currentTokens += tokens;
+    }
+    if (current.length > 0) {
+      batches.push(current);
+    }
+
+    return batches;
+  }
 
-      messages.push(message);
+  // One line per already-summarized PR, used as context for the repo summary
+  private describeSummaries(
+    pullRequests: PullRequestInfo[],
+    summaries: Map<number, CachedPullRequestSummary>
+  ): string[] {
+    return pullRequests
+      .filter((pr) => summaries.has(pr.number))
+      .map(
+        (pr) => `- #${pr.number} ${pr.title}: ${summaries.get(pr.number)!.summary}`
+      );
+  }
 
-      // If no tool calls, we're done
-      if (!message.tool_calls || message.tool_calls.length === 0) {
-        // Parse the final summary from the message
-        return this.parseSummaryFromMessage(message.content || "", owner, repo);
+  private async summarizeBatch(
+    owner: string,
+    repo: string,
+    window: ReportingWindow,
+    batch: PullRequestDetails[],
+    summarizedElsewhere: string[] | null
+  ): Promise<BatchSummary> {
+    const systemPrompt = this.buildSystemPrompt(
+      owner,
+      repo,
+      window.startDate,
+      window.endDate
+    );
+    const userPrompt = this.buildUserPrompt(
+      batch,
+      summarizedElsewhere,
+      getPeriodName(window)
+    );
+    const messages: ChatMessage[] = [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt },
+    ];
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.chat({
+        messages,
+        responseSchema: { name: "batch_summary", schema: BATCH_SUMMARY_SCHEMA },
+      });
+
+      const { summary, errors } = this.parseBatchSummary(
+        response.content,
+        batch
+      );
+      if (summary) {
+        return summary;
+      }
+      if (attempt >= MAX_REPAIR_ATTEMPTS) {
+        throw new Error(
+          `${this.llm.name} reply did not match the summary format after ${MAX_REPAIR_ATTEMPTS} repair attempt(s): ${errors.join("; ")}`
+        );
       }
 
-      // Handle tool calls
-      for (const toolCall of message.tool_calls || []) {
-        const toolName = toolCall.function.name;
-        const toolArgs = JSON.parse(toolCall.function.arguments || "{}");
-
-        try {
-          console.log(
-            `  Calling tool: ${toolName} with args:`,
-            JSON.stringify(toolArgs, null, 2)
-          );
-          const result = await this.mcpClient.callTool(toolName, toolArgs);
-
-          if (result.isError) {
-            console.error(`  Tool ${toolName} returned error:`, result.content);
-            messages.push({
-              role: "tool",
-              tool_call_id: toolCall.id,
-              content: JSON.stringify(result.content),
-            });
-          } else {
-            // Extract text content from MCP result
-            let textContent = result.content
-              .map((item) => item.text || JSON.stringify(item))
-              .join("\n");
-
-            // Truncate large tool results to avoid token limits
-            // Especially important for PR diffs which can be very large
-            if (toolName.includes("diff") || toolName.includes("files")) {
-              textContent = this.truncateContent(
-                textContent,
-                this.MAX_TOOL_RESULT_TOKENS
-              );
-              console.log(
-                `  Truncated tool result to ~${this.MAX_TOOL_RESULT_TOKENS} tokens`
-              );
-            } else {
-              textContent = this.truncateContent(
-                textContent,
-                this.MAX_TOOL_RESULT_TOKENS * 2
-              );
-            }
-
-            messages.push({
-              role: "tool",
-              tool_call_id: toolCall.id,
-              content: textContent || JSON.stringify(result.content),
-            });
-          }
-        } catch (error) {
-          const errorMsg =
-            error instanceof Error ? error.message : String(error);
-          console.error(`  Error calling tool ${toolName}:`, errorMsg);
-          messages.push({
-            role: "tool",
-            tool_call_id: toolCall.id,
-            content: `Error: ${errorMsg}`,
-          });
+      console.warn(
+        `  [${owner}/${repo}] ⚠ Reply did not match the summary format, asking for a repair: ${errors.join("; ")}`
+      );
+      messages.push(
+        { role: "assistant", content: response.content },
+        { role: "user", content: this.buildRepairPrompt(errors) }
+      );
+    }
+  }
+
+  /**
+   * Write the repo-level summary from PR summaries alone, used when the PRs
+   * were summarized in several batches or all came from the cache
+   */
+  private async writeOverallSummary(
+    owner: string,
+    repo: string,
+    period: string,
+    pullRequests: PullRequestInfo[],
+    summaries: Map<number, CachedPullRequestSummary>
+  ): Promise<string> {
+    const prLines = this.describeSummaries(pullRequests, summaries).join("\n");
+
+    const response = await this.chat({
+      messages: [
+        {
+          role: "system",
+          content: `You are an AI assistant helping to generate a newsletter summary for GitHub repository ${owner}/${repo}.`,
+        },
+        {
+          role: "user",
+          content: `Write a 2-3 sentence summary of the ${period}'s activity in ${owner}/${repo} based on these pull request summaries. Reply with the summary text only.\n\n${prLines}`,
+        },
+      ],
+    });
+
+    return response.content.trim() || "No summary provided";
+  }
+
+  /**
+   * Send a prompt that is answered with plain text, reusing a cached reply
+   * for the same prompt
+   */
+  private async writeHighlights(system: string, prompt: string): Promise<string> {
+    const cached = this.cache?.getHighlights(prompt);
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.chat({
+      messages: [
+        { role: "system", content: system },
+        { role: "user", content: prompt },
+      ],
+    });
+    const highlights = response.content.trim();
+    if (!highlights) {
+      throw new Error(`${this.llm.name} returned an empty reply`);
+    }
+    this.cache?.setHighlights(prompt, highlights);
+    return highlights;
+  }
+
+  // One line per repo summary, with its PR counts, releases and breaking changes
+  private describeRepoSummaries(repos: RepoSummary[]): string {
+    return repos
+      .map((repo) => {
+        const count = (state: PullRequestState) =>
+          repo.pullRequests.filter((pr) => pr.state === state).length;
+        const lines = [
+          `- ${repo.owner}/${repo.repoName} (${count("merged")} merged, ${count(
+            "closed"
+          )} closed without merging, ${count("open")} in flight): ${repo.overallSummary}`,
+        ];
+        for (const release of repo.releases || []) {
+          lines.push(`  Released ${release.tagName}${release.notes ? `: ${release.notes}` : ""}`);
         }
-      }
+        for (const change of repo.breakingChanges) {
+          lines.push(`  High-risk/breaking (PR #${change.prNumber}): ${change.description}`);
+        }
+        return lines.join("\n");
+      })
+      .join("\n");
+  }
+
+  /**
+   * Write a short highlights paragraph for a team from the summaries of its
+   * repos, without fetching anything from GitHub again
+   */
+  async writeTeamHighlights(
+    teamName: string,
+    repos: RepoSummary[],
+    window: ReportingWindow
+  ): Promise<string> {
+    const { startDate, endDate } = window;
+    return this.writeHighlights(
+      "You are an AI assistant helping to write an engineering newsletter that is read by directors.",
+      `Write a 2-3 sentence highlights paragraph for the ${teamName} team covering ${format(
+        startDate,
+        "yyyy-MM-dd"
+      )} to ${format(endDate, "yyyy-MM-dd")}, based on these repository summaries. Lead with the most significant shipped work, call out any high-risk or breaking changes, and mention important work still in flight. Reply with the paragraph text only.
 
-      iteration++;
+${this.describeRepoSummaries(repos)}`
+    );
+  }
+
+  /**
+   * Write the org-wide TL;DR, e.g. "This Month in Engineering", from the team
+   * highlights, using the repo summaries of teams without highlights
+   */
+  async writeOrgSummary(
+    teams: Array<{ teamName: string; highlights?: string; repos: RepoSummary[] }>,
+    window: ReportingWindow
+  ): Promise<string> {
+    const { startDate, endDate } = window;
+    const teamLines = teams
+      .map(({ teamName, highlights, repos }) =>
+        highlights
+          ? `## ${teamName}\n${highlights}`
+          : `## ${teamName}\n${this.describeRepoSummaries(repos)}`
+      )
+      .join("\n\n");
+
+    return this.writeHighlights(
+      `You are an AI assistant helping to write the "${getOrgSummaryTitle(window)}" summary at the top of the ${this.config.github.organization} engineering newsletter, which is read by directors.`,
+      `Write a TL;DR of 3-4 sentences covering ${format(
+        startDate,
+        "yyyy-MM-dd"
+      )} to ${format(endDate, "yyyy-MM-dd")} for the whole organization, based on these team summaries. Focus on what matters across teams: major shipped work, risks and breaking changes, and notable work in flight. Reply with the summary text only.
+
+${teamLines}`
+    );
+  }
+
+  /**
+   * Write a few shout-outs for notable work from the repo summaries, naming
+   * only people who may be named. Returns null when there is nobody to name.
+   */
+  async writeShoutOuts(
+    repos: RepoSummary[],
+    window: ReportingWindow
+  ): Promise<string | null> {
+    const { startDate, endDate } = window;
+    const spotlight = this.config.spotlight;
+    const lines = repos.flatMap((repo) => {
+      const prLines = repo.pullRequests
+        .filter((pr) => pr.state === "merged" && isNameable(pr.author, spotlight))
+        .map(
+          (pr) =>
+            `- @${pr.author}${pr.firstContribution ? " (first contribution to this repo)" : ""}, ${repo.repoName} #${pr.number} ${pr.title}: ${pr.summary}`
+        );
+      const coAuthors = (repo.coAuthors || [])
+        .filter((coAuthor) => isNameable(coAuthor.login || coAuthor.name, spotlight))
+        .map(describeCoAuthor);
+      if (coAuthors.length > 0) {
+        prLines.push(`- Co-authors in ${repo.repoName}: ${coAuthors.join(", ")}`);
+      }
+      return prLines;
+    });
+    if (lines.length === 0) {
+      return null;
     }
 
-    throw new Error("Max iterations reached while processing repo summary");
+    return this.writeHighlights(
+      "You are an AI assistant helping to write the contributor spotlight of an engineering newsletter.",
+      `Write 2-3 short shout-outs for notable work merged between ${format(
+        startDate,
+        "yyyy-MM-dd"
+      )} and ${format(endDate, "yyyy-MM-dd")}, based on these pull requests. Give one shout-out per line, starting with "- " and the person's @handle, and explain in one sentence why the work matters. Welcome first-time contributors where they did notable work. Only name people listed below, and reply with the lines only.
+
+${lines.join("\n")}`
+    );
   }
 
   private buildSystemPrompt(
@@ -282,55 +915,55 @@ export class OpenAIAgent {
   ): string {
     return `You are an AI assistant helping to generate a newsletter summary for GitHub repository ${owner}/${repo}.
 
-You have access to GitHub MCP tools that allow you to:
-- List pull requests
-- Get pull request details
-- Get pull request diffs
-- Get files changed in pull requests
-- List commits
-
-Your task is to summarize all pull requests that were closed/merged between ${format(
+You will be given data about pull requests that were closed/merged between ${format(
       startDate,
       "yyyy-MM-dd"
-    )} and ${format(endDate, "yyyy-MM-dd")}.
+    )} and ${format(endDate, "yyyy-MM-dd")}, and about pull requests still open at the end of that period, fetched directly from GitHub: state, title, author, description, size and changed files.
+
+Describe open pull requests as work in progress, not as shipped changes.
 
-Use the GitHub MCP tools to gather information about the pull requests, then provide a comprehensive summary.`;
+Your task is to write the prose for the newsletter. Only describe the pull requests you are given, and do not invent details that are not supported by the data.`;
   }
 
   private buildUserPrompt(
-    owner: string,
-    repo: string,
-    startDate: Date,
-    endDate: Date
+    batch: PullRequestDetails[],
+    summarizedElsewhere: string[] | null,
+    period: string
   ): string {
-    return `Summarize all pull requests that were closed/merged in ${owner}/${repo} between ${format(
-      startDate,
-      "yyyy-MM-dd"
-    )} and ${format(endDate, "yyyy-MM-dd")}.
+    const prData = JSON.stringify(
+      batch.map((pr) => this.toPromptData(pr)),
+      null,
+      2
+    );
+
+    let prompt = `Summarize these pull requests:
 
-Use the GitHub MCP tools to:
-1. Fetch all pull requests that were closed/merged in the timeframe
-2. For each PR, get details (number, title, author, merged date, description)
-3. For large PRs, focus on file names and summary rather than full diffs
-4. Generate a 1-2 sentence summary for each PR
-5. Identify any high-risk or breaking changes
+${prData}
 
-IMPORTANT: If PR diffs are very large, focus on:
-- File names changed
+For each pull request:
+1. Write a 1-2 sentence summary of what it does, based on its title, description and changed files
+2. Identify whether it is a high-risk or breaking change
+
+IMPORTANT: For large PRs, focus on:
+- The areas of the codebase that changed
 - High-level summary of changes
-- Key functionality affected
-- Avoid including full diff content unless necessary
+- Key functionality affected`;
+
+    if (summarizedElsewhere && summarizedElsewhere.length > 0) {
+      prompt += `
+
+These pull requests from the same period were already summarized. Do not include them in "pullRequests", but take them into account in "overallSummary":
+${summarizedElsewhere.join("\n")}`;
+    }
+
+    prompt += `
 
 Provide your response in this JSON format:
 {
-  "overallSummary": "2-3 sentence summary of the week's activity",
+  "overallSummary": "2-3 sentence summary of the ${period}'s activity",
   "pullRequests": [
     {
       "number": 123,
-      "title": "PR title",
-      "author": "username",
-      "mergedDate": "2024-01-15",
-      "url": "https://github.com/owner/repo/pull/123",
       "summary": "1-2 sentence summary of what this PR does"
     }
   ],
@@ -341,37 +974,70 @@ Provide your response in this JSON format:
     }
   ]
 }`;
+
+    return prompt;
   }
 
-  private parseSummaryFromMessage(
+  private buildRepairPrompt(errors: string[]): string {
+    return `Your reply does not match the required format:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Reply again with only the corrected JSON object, covering every pull request you were given.`;
+  }
+
+  /**
+   * Parse and validate a batch reply, returning the problems found so they
+   * can be sent back to the model
+   */
+  private parseBatchSummary(
     content: string,
-    owner: string,
-    repo: string
-  ): RepoSummary {
+    batch: PullRequestDetails[]
+  ): { summary?: BatchSummary; errors: string[] } {
+    // Models without a JSON reply mode sometimes wrap the JSON in a code fence
+    const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+    let parsed: unknown;
     try {
-      // Try to extract JSON from the message
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return {
-          repoName: repo,
-          owner,
-          overallSummary: parsed.overallSummary || "No summary provided",
-          pullRequests: parsed.pullRequests || [],
-          breakingChanges: parsed.breakingChanges || [],
-        };
-      }
+      parsed = JSON.parse(fenced ? fenced[1] : content);
     } catch (error) {
-      console.warn("Failed to parse JSON from OpenAI response:", error);
+      return {
+        errors: [
+          `The reply is not valid JSON (${
+            error instanceof Error ? error.message : String(error)
+          })`,
+        ],
+      };
     }
 
-    // Fallback if parsing fails
-    return {
-      repoName: repo,
-      owner,
-      overallSummary: content || "No summary provided",
-      pullRequests: [],
-      breakingChanges: [],
-    };
+    if (!validateBatchSummary(parsed)) {
+      return {
+        errors: (validateBatchSummary.errors || []).map(
+          (error) => `${error.instancePath || "The reply"} ${error.message}`
+        ),
+      };
+    }
+
+    const errors: string[] = [];
+    const expected = new Set(batch.map((pr) => pr.number));
+    if (!parsed.overallSummary.trim()) {
+      errors.push("overallSummary is empty");
+    }
+    for (const pr of batch) {
+      const entry = parsed.pullRequests.find((p) => p.number === pr.number);
+      if (!entry || !entry.summary.trim()) {
+        errors.push(`pullRequests has no summary for PR #${pr.number}`);
+      }
+    }
+    for (const entry of parsed.pullRequests) {
+      if (!expected.has(entry.number)) {
+        errors.push(`pullRequests includes PR #${entry.number}, which was not given`);
+      }
+    }
+    for (const change of parsed.breakingChanges) {
+      if (!expected.has(change.prNumber)) {
+        errors.push(`breakingChanges refers to PR #${change.prNumber}, which was not given`);
+      }
+    }
+
+    return errors.length > 0 ? { errors } : { summary: parsed, errors };
   }
 }
@@ -0,0 +1,383 @@
+import type { OpenPullRequestsConfig } from "./config.js";
+import type { GitHubDataSource } from "./github-data-source.js";
+import type { PullRequestVersion, SummaryCache } from "./summary-cache.js";
+
+// "closed" means closed without merging; "open" PRs are still in flight
+export type PullRequestState = "merged" | "closed" | "open";
+
+export interface PullRequestInfo {
+  number: number;
+  title: string;
+  author: string;
+  url: string;
+  mergedAt: string | null;
+  closedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  // A review has been requested from a user or team and not yet given
+  reviewRequested: boolean;
+}
+
+export interface PullRequestFile {
+  filename: string;
+  status: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface PullRequestReview {
+  author: string;
+  // APPROVED, CHANGES_REQUESTED, COMMENTED, DISMISSED or PENDING
+  state: string;
+  submittedAt: string | null;
+}
+
+export interface PullRequestDetails extends PullRequestInfo {
+  body: string;
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+  files: PullRequestFile[];
+}
+
+// Timing, reviews and size of a merged PR, which metrics are computed from
+export interface PullRequestMetrics {
+  createdAt: string;
+  mergedAt: string;
+  // The first review by someone other than the author, if any
+  firstReviewAt: string | null;
+  reviews: number;
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+}
+
+// Helper function to check if a date is within the timeframe
+export function isWithinTimeframe(
+  date: string | null,
+  startDate: Date,
+  endDate: Date
+): boolean {
+  if (!date) return false;
+  const prDate = new Date(date);
+  return prDate >= startDate && prDate <= endDate;
+}
+
+export function toPullRequestInfo(pr: any): PullRequestInfo {
+  return {
+    number: pr.number,
+    title: pr.title || "",
+    author: pr.user?.login || pr.author?.login || pr.author || "",
+    url: pr.html_url || pr.url || "",
+    mergedAt: pr.merged_at || pr.mergedAt || null,
+    closedAt: pr.closed_at || pr.closedAt || null,
+    createdAt: pr.created_at || pr.createdAt || "",
+    updatedAt: pr.updated_at || pr.updatedAt || "",
+    reviewRequested:
+      (pr.requested_reviewers?.length || 0) +
+        (pr.requested_teams?.length || 0) >
+      0,
+  };
+}
+
+export function toPullRequestReview(review: any): PullRequestReview {
+  return {
+    author: review.user?.login || review.author?.login || review.author || "",
+    state: review.state || "",
+    submittedAt: review.submitted_at || review.submittedAt || null,
+  };
+}
+
+/**
+ * The metrics of a merged PR. Only reviews submitted by someone other than
+ * the author before the merge count.
+ */
+export function getPullRequestMetrics(
+  pr: PullRequestDetails,
+  reviews: PullRequestReview[]
+): PullRequestMetrics {
+  const mergedAt = pr.mergedAt || "";
+  const reviewTimes = reviews
+    .filter(
+      (review) =>
+        review.author !== pr.author &&
+        review.state !== "PENDING" &&
+        review.submittedAt !== null &&
+        review.submittedAt <= mergedAt
+    )
+    .map((review) => review.submittedAt!)
+    .sort();
+
+  return {
+    createdAt: pr.createdAt,
+    mergedAt,
+    firstReviewAt: reviewTimes[0] || null,
+    reviews: reviewTimes.length,
+    additions: pr.additions,
+    deletions: pr.deletions,
+    changedFiles: pr.changedFiles,
+  };
+}
+
+export function getPullRequestState(pr: PullRequestInfo): PullRequestState {
+  if (pr.mergedAt) return "merged";
+  return pr.closedAt ? "closed" : "open";
+}
+
+export function toPullRequestVersion(
+  owner: string,
+  repo: string,
+  pr: PullRequestInfo
+): PullRequestVersion {
+  return {
+    owner,
+    repo,
+    number: pr.number,
+    mergedAt: pr.mergedAt,
+    updatedAt: pr.updatedAt,
+  };
+}
+
+/**
+ * List PRs closed or merged within the window, paging through closed PRs
+ * (most recently updated first) until they are older than the window.
+ * Returns null if the PR list could not be fetched.
+ */
+export async function listClosedPullRequests(
+  source: GitHubDataSource,
+  owner: string,
+  repo: string,
+  startDate: Date,
+  endDate: Date
+): Promise<PullRequestInfo[] | null> {
+  const pullRequests: PullRequestInfo[] = [];
+  const perPage = 100;
+
+  for (let page = 1; ; page++) {
+    let prs: PullRequestInfo[];
+    try {
+      prs = await source.listPullRequests(owner, repo, {
+        state: "closed",
+        sort: "updated",
+        direction: "desc",
+        perPage,
+        page,
+      });
+    } catch (error) {
+      if (page === 1) {
+        return null;
+      }
+      console.warn(
+        `  [${owner}/${repo}] Stopped listing PRs at page ${page}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+      return pullRequests;
+    }
+
+    for (const pr of prs) {
+      if (isWithinTimeframe(pr.mergedAt || pr.closedAt, startDate, endDate)) {
+        pullRequests.push(pr);
+      }
+    }
+
+    // A PR closed inside the window was last updated no earlier than the window start
+    const oldest = prs[prs.length - 1];
+    if (
+      prs.length < perPage ||
+      (oldest && oldest.updatedAt && new Date(oldest.updatedAt) < startDate)
+    ) {
+      return pullRequests;
+    }
+  }
+}
+
+// Open PRs are listed oldest first, up to this many pages
+const MAX_OPEN_PULL_REQUEST_PAGES = 5;
+
+/**
+ * List open PRs worth showing as in flight at the end of the window: those
+ * opened at least `minAgeDays` earlier and, optionally, younger ones waiting
+ * on a requested review. PRs waiting on review come first, then the oldest.
+ */
+export async function listOpenPullRequests(
+  source: GitHubDataSource,
+  owner: string,
+  repo: string,
+  endDate: Date,
+  options: OpenPullRequestsConfig
+): Promise<PullRequestInfo[]> {
+  const cutoff = new Date(
+    endDate.getTime() - options.minAgeDays * 24 * 60 * 60 * 1000
+  );
+  const pullRequests: PullRequestInfo[] = [];
+  const perPage = 100;
+
+  for (let page = 1; page <= MAX_OPEN_PULL_REQUEST_PAGES; page++) {
+    const prs = await source.listPullRequests(owner, repo, {
+      state: "open",
+      sort: "created",
+      direction: "asc",
+      perPage,
+      page,
+    });
+
+    let done = prs.length < perPage;
+    for (const pr of prs) {
+      const createdAt = new Date(pr.createdAt);
+      // PRs opened after the window did not exist yet
+      if (createdAt > endDate) {
+        done = true;
+        break;
+      }
+      if (createdAt <= cutoff) {
+        pullRequests.push(pr);
+      } else if (options.includeReviewRequested) {
+        if (pr.reviewRequested) pullRequests.push(pr);
+      } else {
+        // Without review requests to look for, younger PRs never qualify
+        done = true;
+        break;
+      }
+    }
+
+    if (done) {
+      break;
+    }
+  }
+
+  return pullRequests
+    .sort(
+      (a, b) =>
+        Number(b.reviewRequested) - Number(a.reviewRequested) ||
+        a.createdAt.localeCompare(b.createdAt)
+    )
+    .slice(0, options.maxPerRepo);
+}
+
+/**
+ * Fetch the files of a PR page by page, for backends without a batched query
+ */
+export async function listAllPullRequestFiles(
+  source: GitHubDataSource,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<PullRequestFile[]> {
+  const files: PullRequestFile[] = [];
+  const perPage = 100;
+
+  for (let page = 1; ; page++) {
+    const pageFiles = await source.listPullRequestFiles(owner, repo, pullNumber, {
+      perPage,
+      page,
+    });
+    files.push(...pageFiles);
+    if (pageFiles.length < perPage) {
+      return files;
+    }
+  }
+}
+
+/**
+ * Fetch the description, size and changed files of each PR. Details are
+ * cached per PR version, so unchanged PRs are not fetched again on reruns;
+ * the rest are fetched together, in one query where the backend allows it.
+ */
+export async function collectPullRequestDetails(
+  source: GitHubDataSource,
+  owner: string,
+  repo: string,
+  pullRequests: PullRequestInfo[],
+  cache: SummaryCache | null
+): Promise<PullRequestDetails[]> {
+  const details = new Map<number, PullRequestDetails>();
+  const uncached: PullRequestInfo[] = [];
+  for (const pr of pullRequests) {
+    const cachedDetails = cache?.getDetails(
+      toPullRequestVersion(owner, repo, pr),
+      "details"
+    );
+    if (cachedDetails) {
+      details.set(pr.number, JSON.parse(cachedDetails) as PullRequestDetails);
+    } else {
+      uncached.push(pr);
+    }
+  }
+
+  if (uncached.length > 0) {
+    const fetched = await source.getPullRequestDetails(owner, repo, uncached);
+    for (const pr of fetched) {
+      details.set(pr.number, pr);
+      cache?.setDetails(
+        toPullRequestVersion(owner, repo, pr),
+        "details",
+        JSON.stringify(pr)
+      );
+    }
+  }
+
+  return pullRequests.map((pr) => {
+    const prDetails = details.get(pr.number);
+    if (!prDetails) {
+      throw new Error(`Could not fetch ${owner}/${repo}#${pr.number}`);
+    }
+    return prDetails;
+  });
+}
+
+/**
+ * Fetch the reviews of a PR page by page
+ */
+export async function listAllPullRequestReviews(
+  source: GitHubDataSource,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<PullRequestReview[]> {
+  const reviews: PullRequestReview[] = [];
+  const perPage = 100;
+
+  for (let page = 1; ; page++) {
+    const pageReviews = await source.listPullRequestReviews(
+      owner,
+      repo,
+      pullNumber,
+      { perPage, page }
+    );
+    reviews.push(...pageReviews);
+    if (pageReviews.length < perPage) {
+      return reviews;
+    }
+  }
+}
+
+/**
+ * Fetch the reviews of each PR, cached per PR version like its details
+ */
+export async function collectPullRequestReviews(
+  source: GitHubDataSource,
+  owner: string,
+  repo: string,
+  pullRequests: PullRequestInfo[],
+  cache: SummaryCache | null
+): Promise<Map<number, PullRequestReview[]>> {
+  const reviews = new Map<number, PullRequestReview[]>();
+  for (const pr of pullRequests) {
+    const version = toPullRequestVersion(owner, repo, pr);
+    const cachedReviews = cache?.getDetails(version, "reviews");
+    if (cachedReviews) {
+      reviews.set(pr.number, JSON.parse(cachedReviews) as PullRequestReview[]);
+      continue;
+    }
+
+    const prReviews = await listAllPullRequestReviews(
+      source,
+      owner,
+      repo,
+      pr.number
+    );
+    reviews.set(pr.number, prReviews);
+    cache?.setDetails(version, "reviews", JSON.stringify(prReviews));
+  }
+  return reviews;
+}
@@ -0,0 +1,231 @@
+import { format } from "date-fns";
+import type {
+  CommitInfo,
+  GitHubDataSource,
+  ReleaseInfo,
+  TagInfo,
+} from "./github-data-source.js";
+import { isWithinTimeframe } from "./pr-collector.js";
+
+// Tags are listed by name rather than date, so only this many pages are checked
+const MAX_TAG_PAGES = 5;
+
+/**
+ * A release or tag published in the window, as shown in the newsletter
+ */
+export interface RepoRelease {
+  tagName: string;
+  // Release title; tags without a release have none
+  name?: string;
+  // When it was published, or for tags when the tagged commit was made
+  date: string;
+  // The release page, or for tags the tagged commit
+  url: string;
+  prerelease?: boolean;
+  // True for tags pushed without a release
+  tagOnly?: boolean;
+  // Release notes condensed by the model
+  notes?: string;
+  // Merged PRs of the edition that the release notes refer to
+  pullRequests: Array<{ number: number; url: string }>;
+}
+
+// A release or tag in the window, with its full release notes
+export interface CollectedRelease
+  extends Omit<RepoRelease, "notes" | "pullRequests"> {
+  body: string;
+}
+
+export function toReleaseInfo(release: any): ReleaseInfo {
+  return {
+    tagName: release.tag_name || release.tagName || "",
+    name: release.name || "",
+    body: release.body || "",
+    url: release.html_url || release.url || "",
+    draft: Boolean(release.draft),
+    prerelease: Boolean(release.prerelease),
+    createdAt: release.created_at || release.createdAt || "",
+    publishedAt: release.published_at || release.publishedAt || null,
+  };
+}
+
+export function toTagInfo(tag: any): TagInfo {
+  return {
+    name: tag.name || "",
+    sha: tag.commit?.sha || tag.sha || "",
+  };
+}
+
+/**
+ * The repo's releases down to the first one created before the window,
+ * newest first. Releases are listed by creation date, so older ones are not
+ * fetched.
+ */
+async function listRecentReleases(
+  source: GitHubDataSource,
+  owner: string,
+  repo: string,
+  startDate: Date
+): Promise<ReleaseInfo[]> {
+  const releases: ReleaseInfo[] = [];
+  const perPage = 100;
+
+  for (let page = 1; ; page++) {
+    const pageReleases = await source.listReleases(owner, repo, {
+      perPage,
+      page,
+    });
+    releases.push(...pageReleases);
+
+    const oldest = pageReleases[pageReleases.length - 1];
+    if (
+      pageReleases.length < perPage ||
+      (oldest.createdAt && new Date(oldest.createdAt) < startDate)
+    ) {
+      return releases;
+    }
+  }
+}
+
+async function listCommitsInWindow(
+  source: GitHubDataSource,
+  owner: string,
+  repo: string,
+  startDate: Date,
+  endDate: Date
+): Promise<Map<string, CommitInfo>> {
+  const commits = new Map<string, CommitInfo>();
+  const perPage = 100;
+
+  for (let page = 1; ; page++) {
+    const pageCommits = await source.listCommits(owner, repo, {
+      since: startDate,
+      until: endDate,
+      perPage,
+      page,
+    });
+    for (const commit of pageCommits) {
+      commits.set(commit.sha, commit);
+    }
+    if (pageCommits.length < perPage) {
+      return commits;
+    }
+  }
+}
+
+/**
+ * Tags without a release that point at a commit made in the window. GitHub
+ * does not record when a tag was pushed, so the commit date stands in for it.
+ */
+async function listTagsInWindow(
+  source: GitHubDataSource,
+  owner: string,
+  repo: string,
+  startDate: Date,
+  endDate: Date,
+  releasedTags: Set<string>
+): Promise<CollectedRelease[]> {
+  const tags: TagInfo[] = [];
+  const perPage = 100;
+  for (let page = 1; page <= MAX_TAG_PAGES; page++) {
+    const pageTags = await source.listTags(owner, repo, { perPage, page });
+    tags.push(...pageTags.filter((tag) => !releasedTags.has(tag.name)));
+    if (pageTags.length < perPage) {
+      break;
+    }
+  }
+  if (tags.length === 0) {
+    return [];
+  }
+
+  const commits = await listCommitsInWindow(
+    source,
+    owner,
+    repo,
+    startDate,
+    endDate
+  );
+  return tags.flatMap((tag) => {
+    const commit = commits.get(tag.sha);
+    return commit
+      ? [
+          {
+            tagName: tag.name,
+            date: format(new Date(commit.date), "yyyy-MM-dd"),
+            url: commit.url,
+            tagOnly: true,
+            body: "",
+          },
+        ]
+      : [];
+  });
+}
+
+/**
+ * Releases published in the window and, if `includeTags` is set, tags pushed
+ * without a release, newest first
+ */
+export async function collectReleases(
+  source: GitHubDataSource,
+  owner: string,
+  repo: string,
+  startDate: Date,
+  endDate: Date,
+  includeTags: boolean
+): Promise<CollectedRelease[]> {
+  const recentReleases = await listRecentReleases(
+    source,
+    owner,
+    repo,
+    startDate
+  );
+  const releases: CollectedRelease[] = recentReleases
+    .filter(
+      (release) =>
+        !release.draft &&
+        isWithinTimeframe(release.publishedAt, startDate, endDate)
+    )
+    .map((release) => ({
+      tagName: release.tagName,
+      ...(release.name && release.name !== release.tagName
+        ? { name: release.name }
+        : {}),
+      date: format(new Date(release.publishedAt!), "yyyy-MM-dd"),
+      url: release.url,
+      ...(release.prerelease ? { prerelease: true } : {}),
+      body: release.body,
+    }));
+  if (!includeTags) {
+    return releases;
+  }
+
+  // Tags of releases outside the window are not listed as tags either
+  const releasedTags = new Set(recentReleases.map((release) => release.tagName));
+  const tags = await listTagsInWindow(
+    source,
+    owner,
+    repo,
+    startDate,
+    endDate,
+    releasedTags
+  );
+  return [...releases, ...tags].sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * The PRs that release notes refer to, as "#123" or a link to the PR, out of
+ * the given ones
+ */
+export function findReleasePullRequests(
+  body: string,
+  pullRequests: Array<{ number: number; url: string }>
+): Array<{ number: number; url: string }> {
+  const referenced = new Set(
+    Array.from(body.matchAll(/(?:\/pull\/|#)(\d+)\b/g)).map(([, number]) =>
+      Number(number)
+    )
+  );
+  return pullRequests
+    .filter((pr) => referenced.has(pr.number))
+    .sort((a, b) => a.number - b.number);
+}
@@ -1,229 +1,296 @@
-import { subDays } from "date-fns";
-import type { AppConfig } from "./config.js";
-import type { GitHubMCPClient } from "./mcp-client.js";
+import { getGitHubOwner } from "./config.js";
+import type { ActivityMode, AppConfig, GitHubOwnerConfig } from "./config.js";
+import type {
+  GitHubDataSource,
+  PullRequestSearchItem,
+  RepoRef,
+} from "./github-data-source.js";
+import { listClosedPullRequests } from "./pr-collector.js";
+import { collectReleases } from "./release-collector.js";
+import type { SummaryCache } from "./summary-cache.js";
+import { globPrefix, repoKey, splitOwner, TeamMatcher } from "./team-matcher.js";
+import type { RepoOwnership } from "./team-matcher.js";
+import {
+  createCodeownersLoader,
+  loadGitHubTeamRepos,
+} from "./team-ownership.js";
+import { runWithConcurrency } from "./concurrency.js";
+
+export { isWithinTimeframe } from "./pr-collector.js";
 
 export interface RepoActivity {
   owner: string;
   repo: string;
+  // PRs that count as activity under the configured activity mode
   prCount: number;
+  mergedCount: number;
+  closedUnmergedCount: number;
+  // Releases and tags in the timeframe, only counted for repos without PR activity
+  releaseCount?: number;
 }
 
-// Helper function to check if a date is within the timeframe
-export function isWithinTimeframe(
-  date: string | null,
-  startDate: Date,
-  endDate: Date
-): boolean {
-  if (!date) return false;
-  const prDate = new Date(date);
-  return prDate >= startDate && prDate <= endDate;
+// The search qualifier that limits results to the owner's repos
+function ownerQualifier(owner: GitHubOwnerConfig): string {
+  return `${owner.user ? "user" : "org"}:${owner.name}`;
 }
 
 /**
- * List all repositories in an organization that match given prefixes
+ * Page through a repository search, returning the repos found. Search stops
+ * at the first failed page.
  */
-async function findReposByPrefixes(
-  mcpClient: GitHubMCPClient,
-  organization: string,
-  prefixes: string[]
-): Promise<Array<{ owner: string; repo: string }>> {
-  const matchingRepos: Array<{ owner: string; repo: string }> = [];
-  const seenRepos = new Set<string>();
+async function searchRepos(
+  source: GitHubDataSource,
+  query: string
+): Promise<RepoRef[]> {
+  const found: RepoRef[] = [];
+  const perPage = 100;
+
+  for (let page = 1; ; page++) {
+    let repos: RepoRef[];
+    try {
+      repos = await source.searchRepositories(query, { perPage, page });
+    } catch (error) {
+      console.warn(
+        `  Error searching repos for ${query} (page ${page}):`,
+        error instanceof Error ? error.message : String(error)
+      );
+      break;
+    }
 
-  try {
-    // Use search_repositories tool for each prefix
-    for (const prefix of prefixes) {
-      console.log(`  Searching for repos with prefix: ${prefix}`);
-
-      // Paginate through search results
-      let page = 1;
-      const perPage = 100;
-      let hasMore = true;
-
-      while (hasMore) {
-        // Build query: org:{orgName} "{prefix}" in:name
-        const query = `org:${organization} "${prefix}" in:name`;
-
-        const result = await mcpClient.callTool("search_repositories", {
-          query,
-          minimal_output: true,
-          perPage,
-          page,
-        });
-
-        // Check for errors
-        if (result.isError) {
-          console.warn(
-            `  Error searching repos with prefix ${prefix} (page ${page}):`,
-            result.content
-          );
-          hasMore = false;
-          break;
-        }
+    found.push(...repos.filter(({ repo }) => Boolean(repo)));
 
-        // Parse the result
-        let repos: any[] = [];
-        if (result.content && result.content.length > 0) {
-          const contentText = result.content
-            .map((item: any) => item.text || JSON.stringify(item))
-            .join("\n");
-
-          try {
-            const parsed = JSON.parse(contentText);
-            repos = Array.isArray(parsed)
-              ? parsed
-              : parsed.data || parsed.items || parsed.repositories || [];
-          } catch {
-            // If parsing fails, try to extract from text
-            repos = [];
-          }
-        }
+    // Check if there are more pages
+    if (repos.length < perPage) {
+      break;
+    }
+  }
 
-        if (repos.length === 0) {
-          hasMore = false;
-          break;
-        }
+  return found;
+}
 
-        // Add matching repos (they should all match the prefix from the query)
-        for (const repo of repos) {
-          const repoName = repo.name || repo.full_name?.split("/")[1] || "";
-          if (repoName && repoName.startsWith(prefix)) {
-            const key = `${organization}/${repoName}`;
-            if (!seenRepos.has(key)) {
-              seenRepos.add(key);
-              matchingRepos.push({
-                owner: organization,
-                repo: repoName,
-              });
-            }
-          }
-        }
+/**
+ * List all repositories of an owner that match given prefixes
+ */
+async function findReposByPrefixes(
+  source: GitHubDataSource,
+  owner: GitHubOwnerConfig,
+  prefixes: string[]
+): Promise<RepoRef[]> {
+  const matchingRepos: RepoRef[] = [];
 
-        // Check if there are more pages
-        hasMore = repos.length === perPage;
-        page++;
+  // Search repository names for each prefix
+  for (const prefix of prefixes) {
+    console.error(`  Searching for repos with prefix: ${prefix}`);
 
-        // Small delay to avoid rate limiting
-        await new Promise((resolve) => setTimeout(resolve, 200));
-      }
-    }
-  } catch (error) {
-    console.warn(
-      `Error listing repos for org ${organization}:`,
-      error instanceof Error ? error.message : String(error)
+    // Build query: org:{orgName} "{prefix}" in:name
+    const repos = await searchRepos(
+      source,
+      `${ownerQualifier(owner)} "${prefix}" in:name`
     );
+    // Search matches words anywhere in the name, so keep real prefix matches
+    matchingRepos.push(...repos.filter(({ repo }) => repo.startsWith(prefix)));
   }
 
   return matchingRepos;
 }
 
 /**
- * Extract all unique repos from the teams configuration
- * This includes both explicit repos and repos matching prefix patterns
+ * Find the repos of every owner carrying each of the given topics, as a map
+ * from `repoKey` to the topics the repo has
+ */
+async function findReposByTopics(
+  source: GitHubDataSource,
+  owners: GitHubOwnerConfig[],
+  topics: string[]
+): Promise<Map<string, string[]>> {
+  const repoTopics = new Map<string, string[]>();
+
+  for (const topic of topics) {
+    console.error(`  Searching for repos with topic: ${topic}`);
+    for (const owner of owners) {
+      const repos = await searchRepos(
+        source,
+        `${ownerQualifier(owner)} topic:${topic}`
+      );
+      for (const { owner: repoOwner, repo } of repos) {
+        const key = repoKey(repoOwner, repo);
+        repoTopics.set(key, [...(repoTopics.get(key) || []), topic]);
+      }
+    }
+  }
+
+  return repoTopics;
+}
+
+/**
+ * Build the team matcher for a run, looking up which repos carry the topics
+ * and which repos the GitHub org teams that teams match on have access to
+ */
+export async function createTeamMatcher(
+  config: AppConfig,
+  source: GitHubDataSource,
+  cache: SummaryCache | null = null
+): Promise<TeamMatcher> {
+  const topics = Array.from(
+    new Set(Object.values(config.teams).flatMap((team) => team.topics || []))
+  );
+  const repoTopics =
+    topics.length > 0
+      ? await findReposByTopics(source, config.github.organizations, topics)
+      : new Map<string, string[]>();
+  const repoTeams = await loadGitHubTeamRepos(config, source, cache);
+
+  const ownership = new Map<string, RepoOwnership>();
+  for (const [key, repoTopicList] of repoTopics) {
+    ownership.set(key, { topics: repoTopicList });
+  }
+  for (const [key, githubTeams] of repoTeams) {
+    ownership.set(key, { ...ownership.get(key), githubTeams });
+  }
+
+  return new TeamMatcher(config.teams, config.teamMatching, {
+    ownership,
+    loadCodeowners: createCodeownersLoader(source, cache),
+    organization: config.github.organization,
+  });
+}
+
+// What to search an owner's repos for: name prefixes, or every repo
+interface OwnerSearch {
+  owner: GitHubOwnerConfig;
+  prefixes: Set<string>;
+  listAll: boolean;
+}
+
+/**
+ * Extract all unique repos from the teams configuration: explicitly listed
+ * repos, repos of the teams' GitHub org teams and repos found by searching
+ * for each team's prefixes, globs and topics, keeping those the team matcher
+ * assigns to a team. Prefixes and globs scoped to an org are searched in
+ * that org, the others in every configured organization.
  */
 export async function extractReposFromConfig(
   config: AppConfig,
-  mcpClient: GitHubMCPClient
+  source: GitHubDataSource,
+  matcher: TeamMatcher
 ): Promise<Array<{ owner: string; repo: string }>> {
-  const repos: Array<{ owner: string; repo: string }> = [];
-  const seenRepos = new Set<string>();
+  const candidates: RepoRef[] = [];
+  const searches = new Map<string, OwnerSearch>();
+  const searchesFor = (scope: string | undefined): OwnerSearch[] =>
+    (scope ? [getGitHubOwner(config, scope)] : config.github.organizations).map(
+      (owner) => {
+        const key = owner.name.toLowerCase();
+        const search = searches.get(key) || {
+          owner,
+          prefixes: new Set<string>(),
+          listAll: false,
+        };
+        searches.set(key, search);
+        return search;
+      }
+    );
 
   for (const teamConfig of Object.values(config.teams)) {
-    // Add repos from explicit repo list
-    if (teamConfig.repos) {
-      for (const repoName of teamConfig.repos) {
-        const key = `${config.github.organization}/${repoName}`;
-        if (!seenRepos.has(key)) {
-          seenRepos.add(key);
-          repos.push({
-            owner: config.github.organization,
-            repo: repoName,
-          });
+    for (const value of teamConfig.repos || []) {
+      const { owner, name } = splitOwner(value);
+      candidates.push({ owner: owner || config.github.organization, repo: name });
+    }
+    for (const value of teamConfig.prefixes || []) {
+      const { owner, name } = splitOwner(value);
+      searchesFor(owner).forEach((search) => search.prefixes.add(name));
+    }
+
+    // Globs are searched by their literal start; globs starting with a
+    // wildcard and regex patterns need the whole repo list
+    for (const value of teamConfig.globs || []) {
+      const { owner, name } = splitOwner(value);
+      const prefix = globPrefix(name);
+      for (const search of searchesFor(owner)) {
+        if (prefix) {
+          search.prefixes.add(prefix);
+        } else {
+          search.listAll = true;
         }
       }
     }
+    // Teams owning repos through CODEOWNERS handles need every repo checked
+    if (
+      (teamConfig.patterns && teamConfig.patterns.length > 0) ||
+      (teamConfig.codeowners && teamConfig.codeowners.length > 0)
+    ) {
+      searchesFor(undefined).forEach((search) => (search.listAll = true));
+    }
+  }
 
-    // Search repos based on prefix patterns
-    if (teamConfig.prefixes && teamConfig.prefixes.length > 0) {
-      console.log(
-        `  Searching for repos matching prefixes: ${teamConfig.prefixes.join(
-          ", "
-        )}`
+  candidates.push(...matcher.getOwnedRepos());
+  for (const { owner, prefixes, listAll } of searches.values()) {
+    if (listAll) {
+      console.error(`  Listing all repositories in ${owner.name}...`);
+      candidates.push(
+        ...(await searchRepos(source, `${ownerQualifier(owner)} fork:true`))
       );
-      const prefixRepos = await findReposByPrefixes(
-        mcpClient,
-        config.github.organization,
-        teamConfig.prefixes
+    } else if (prefixes.size > 0) {
+      console.error(
+        `  Searching ${owner.name} for repos matching prefixes: ${Array.from(
+          prefixes
+        ).join(", ")}`
+      );
+      candidates.push(
+        ...(await findReposByPrefixes(source, owner, Array.from(prefixes)))
       );
-
-      for (const { owner, repo } of prefixRepos) {
-        const key = `${owner}/${repo}`;
-        if (!seenRepos.has(key)) {
-          seenRepos.add(key);
-          repos.push({ owner, repo });
-        }
-      }
     }
   }
 
-  return repos;
+  const uniqueRepos = Array.from(
+    new Map(
+      candidates.map(({ owner, repo }) => [repoKey(owner, repo), { owner, repo }])
+    ).values()
+  );
+  await matcher.resolveCodeowners(uniqueRepos);
+  return uniqueRepos.filter(
+    ({ owner, repo }) => matcher.findTeams(owner, repo).length > 0
+  );
 }
 
 /**
- * Check if a repository has PRs closed/merged within the timeframe
+ * Check if a repository has PRs closed/merged within the timeframe, paging
+ * through closed PRs until they are older than the window
  */
 export async function checkRepoHasPRsInTimeframe(
-  mcpClient: GitHubMCPClient,
+  source: GitHubDataSource,
   owner: string,
   repo: string,
   startDate: Date,
-  endDate: Date
-): Promise<{ hasActivity: boolean; prCount: number }> {
+  endDate: Date,
+  activity: ActivityMode = "merged-or-closed"
+): Promise<{
+  hasActivity: boolean;
+  prCount: number;
+  mergedCount: number;
+  closedUnmergedCount: number;
+}> {
   try {
-    // Use MCP to list pull requests with state=closed
-    const result = await mcpClient.listPullRequests({
+    const prs = await listClosedPullRequests(
+      source,
       owner,
       repo,
-      state: "closed",
-      perPage: 100, // Check up to 100 PRs
-      page: 1,
-    });
-
-    // Parse the result - MCP returns content array
-    let prs: any[] = [];
-    if (result.content && result.content.length > 0) {
-      const contentText = result.content
-        .map((item: any) => item.text || JSON.stringify(item))
-        .join("\n");
-
-      try {
-        // Try to parse as JSON if it's structured
-        const parsed = JSON.parse(contentText);
-        prs = Array.isArray(parsed)
-          ? parsed
-          : parsed.data || parsed.items || [];
-      } catch {
-        // If not JSON, try to extract from text
-        // The MCP server might return structured data differently
-        prs = [];
-      }
+      startDate,
+      endDate
+    );
+    if (!prs) {
+      throw new Error("could not list pull requests");
     }
 
-    // Filter PRs by merged_at or closed_at date within timeframe
-    let prCount = 0;
-    for (const pr of prs) {
-      const mergedAt = pr.merged_at || pr.mergedAt;
-      const closedAt = pr.closed_at || pr.closedAt;
-      const prDate = mergedAt || closedAt;
-
-      if (isWithinTimeframe(prDate, startDate, endDate)) {
-        prCount++;
-      }
-    }
+    const mergedCount = prs.filter((pr) => pr.mergedAt).length;
+    const closedUnmergedCount = prs.length - mergedCount;
+    const prCount =
+      activity === "merged" ? mergedCount : mergedCount + closedUnmergedCount;
 
     return {
       hasActivity: prCount > 0,
       prCount,
+      mergedCount,
+      closedUnmergedCount,
     };
   } catch (error) {
     console.warn(
@@ -231,53 +298,380 @@ export async function checkRepoHasPRsInTimeframe(
       error instanceof Error ? error.message : String(error)
     );
     // Return false on error - we'll skip this repo
-    return { hasActivity: false, prCount: 0 };
+    return {
+      hasActivity: false,
+      prCount: 0,
+      mergedCount: 0,
+      closedUnmergedCount: 0,
+    };
   }
 }
 
 /**
- * Discover repositories from config that have PR activity in the timeframe
+ * Count the releases, and tags if configured, published in the timeframe.
+ * A repo whose releases cannot be listed counts as having none.
  */
-export async function discoverReposWithActivity(
+async function countReleases(
   config: AppConfig,
-  mcpClient: GitHubMCPClient,
+  source: GitHubDataSource,
+  owner: string,
+  repo: string,
   startDate: Date,
   endDate: Date
-): Promise<RepoActivity[]> {
-  const activeRepos: RepoActivity[] = [];
-
-  // Extract all repos from config (including prefix-based discovery)
-  console.log("  Extracting repositories from config...");
-  const reposFromConfig = await extractReposFromConfig(config, mcpClient);
-
-  console.log(
-    `  Checking ${reposFromConfig.length} repositories from config...`
-  );
-
-  // Check each repo for PR activity
-  for (const { owner, repo } of reposFromConfig) {
-    const { hasActivity, prCount } = await checkRepoHasPRsInTimeframe(
-      mcpClient,
+): Promise<number> {
+  try {
+    const releases = await collectReleases(
+      source,
       owner,
       repo,
       startDate,
-      endDate
+      endDate,
+      config.releases.tags
     );
+    return releases.length;
+  } catch (error) {
+    console.warn(
+      `Error checking releases for ${owner}/${repo}:`,
+      error instanceof Error ? error.message : String(error)
+    );
+    return 0;
+  }
+}
 
-    if (hasActivity) {
-      activeRepos.push({
+/**
+ * Find the repos among the given ones that published a release or tag in
+ * the timeframe, for repos that have no PR activity
+ */
+async function findReleaseActivity(
+  config: AppConfig,
+  source: GitHubDataSource,
+  repos: Array<{ owner: string; repo: string }>,
+  startDate: Date,
+  endDate: Date
+): Promise<RepoActivity[]> {
+  const results = await runWithConcurrency(
+    repos,
+    config.concurrency.repos,
+    async ({ owner, repo }): Promise<RepoActivity | null> => {
+      const releaseCount = await countReleases(
+        config,
+        source,
+        owner,
+        repo,
+        startDate,
+        endDate
+      );
+      if (releaseCount === 0) {
+        return null;
+      }
+      console.error(
+        `  ✓ ${owner}/${repo} has no PRs but ${releaseCount} release(s) in timeframe`
+      );
+      return {
         owner,
         repo,
-        prCount,
-      });
-      console.log(`  ✓ ${owner}/${repo} has ${prCount} PR(s) in timeframe`);
+        prCount: 0,
+        mergedCount: 0,
+        closedUnmergedCount: 0,
+        releaseCount,
+      };
+    }
+  );
+  return results.filter((result): result is RepoActivity => result !== null);
+}
+
+/**
+ * Parse repo names given as "repo" or "owner/repo", defaulting the owner to
+ * the configured organization
+ */
+export function parseRepoList(
+  config: AppConfig,
+  repoNames: string[]
+): Array<{ owner: string; repo: string }> {
+  return repoNames.map((name) => {
+    const [owner, repo] = name.includes("/")
+      ? name.split("/", 2)
+      : [config.github.organization, name];
+    return { owner, repo };
+  });
+}
+
+// GitHub search returns at most 1000 results per query
+const MAX_SEARCH_RESULTS = 1000;
+
+// Search qualifiers take ISO timestamps without milliseconds
+function toSearchDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+async function searchWindow(
+  source: GitHubDataSource,
+  owner: GitHubOwnerConfig,
+  startDate: Date,
+  endDate: Date,
+  activity: ActivityMode,
+  counts: Map<string, RepoActivity>
+): Promise<void> {
+  const qualifier = activity === "merged" ? "is:merged merged" : "is:closed closed";
+  const query = `${ownerQualifier(owner)} is:pr ${qualifier}:${toSearchDate(
+    startDate
+  )}..${toSearchDate(endDate)}`;
+  const perPage = 100;
+  const items: PullRequestSearchItem[] = [];
+
+  for (let page = 1; ; page++) {
+    const { totalCount, items: pageItems } = await source.searchPullRequests(
+      query,
+      { perPage, page }
+    );
+
+    // Windows with more results than search can return are split in half
+    if (
+      page === 1 &&
+      totalCount > MAX_SEARCH_RESULTS &&
+      endDate.getTime() - startDate.getTime() > 60 * 1000
+    ) {
+      const middle = new Date(
+        Math.floor((startDate.getTime() + endDate.getTime()) / 2000) * 1000
+      );
+      await searchWindow(source, owner, startDate, middle, activity, counts);
+      await searchWindow(
+        source,
+        owner,
+        new Date(middle.getTime() + 1000),
+        endDate,
+        activity,
+        counts
+      );
+      return;
+    }
+
+    items.push(...pageItems);
+    if (
+      pageItems.length < perPage ||
+      items.length >= Math.min(totalCount, MAX_SEARCH_RESULTS)
+    ) {
+      break;
+    }
+  }
+
+  for (const item of items) {
+    const { owner: repoOwner, repo } = item;
+    if (!repoOwner || !repo) continue;
+
+    const key = `${repoOwner}/${repo}`;
+    const activityForRepo = counts.get(key) || {
+      owner: repoOwner,
+      repo,
+      prCount: 0,
+      mergedCount: 0,
+      closedUnmergedCount: 0,
+    };
+    const merged = activity === "merged" || !!item.mergedAt;
+    if (merged) {
+      activityForRepo.mergedCount++;
     } else {
-      console.log(`  - ${owner}/${repo} has no PRs in timeframe`);
+      activityForRepo.closedUnmergedCount++;
     }
+    activityForRepo.prCount++;
+    counts.set(key, activityForRepo);
+  }
+}
 
-    // Small delay to avoid rate limiting
-    await new Promise((resolve) => setTimeout(resolve, 200));
+/**
+ * Find every repo of an organization or user with PR activity in the
+ * timeframe using a few paged GitHub issue searches instead of one request
+ * per repo
+ */
+export async function searchOrgPullRequestActivity(
+  source: GitHubDataSource,
+  owner: GitHubOwnerConfig,
+  startDate: Date,
+  endDate: Date,
+  activity: ActivityMode
+): Promise<RepoActivity[]> {
+  const counts = new Map<string, RepoActivity>();
+  await searchWindow(source, owner, startDate, endDate, activity, counts);
+  return Array.from(counts.values()).sort((a, b) =>
+    a.repo.localeCompare(b.repo)
+  );
+}
+
+/**
+ * Discover active repos with a search of each configured organization, keeping the requested repos
+ * or, by default, the repos that belong to a configured team
+ */
+async function discoverBySearch(
+  config: AppConfig,
+  source: GitHubDataSource,
+  startDate: Date,
+  endDate: Date,
+  matcher: TeamMatcher,
+  repos?: Array<{ owner: string; repo: string }>
+): Promise<RepoActivity[]> {
+  const { organizations } = config.github;
+  const orgActivity: RepoActivity[] = [];
+  for (const owner of organizations) {
+    console.error(`  Searching ${owner.name} for PR activity...`);
+    orgActivity.push(
+      ...(await searchOrgPullRequestActivity(
+        source,
+        owner,
+        startDate,
+        endDate,
+        config.github.activity
+      ))
+    );
+  }
+  console.error(
+    `  Found ${orgActivity.length} active repositories in the ${
+      organizations.length > 1 ? "organizations" : "organization"
+    }`
+  );
+
+  const requested = repos
+    ? new Set(repos.map(({ owner, repo }) => repoKey(owner, repo)))
+    : null;
+  await matcher.resolveCodeowners(repos || orgActivity);
+  const activeRepos: RepoActivity[] = [];
+  const notInTeam: string[] = [];
+
+  for (const activity of orgActivity) {
+    const { owner, repo, mergedCount, closedUnmergedCount } = activity;
+    const included = requested
+      ? requested.has(repoKey(owner, repo))
+      : matcher.findTeams(owner, repo).length > 0;
+
+    if (included) {
+      activeRepos.push(activity);
+      console.error(
+        `  ✓ ${owner}/${repo} has ${mergedCount} merged and ${closedUnmergedCount} closed-unmerged PR(s) in timeframe`
+      );
+    } else if (!requested) {
+      notInTeam.push(`${owner}/${repo} (${activity.prCount})`);
+    }
+  }
+
+  if (notInTeam.length > 0) {
+    console.error(
+      `  ⚠ ${notInTeam.length} active repositories are not in any team: ${notInTeam.join(", ")}`
+    );
+  }
+
+  // Releases cannot be searched for, but publishing one pushes its tag, so
+  // only the remaining repos a push search finds are checked one by one
+  if (config.releases.enabled) {
+    const active = new Set(activeRepos.map(({ owner, repo }) => repoKey(owner, repo)));
+    const pushed = new Set<string>();
+    for (const owner of organizations) {
+      for (const { owner: repoOwner, repo } of await searchRepos(
+        source,
+        `${ownerQualifier(owner)} pushed:${toSearchDate(startDate)}..${toSearchDate(endDate)}`
+      )) {
+        pushed.add(repoKey(repoOwner, repo));
+      }
+    }
+    const candidates = (
+      repos || (await extractReposFromConfig(config, source, matcher))
+    ).filter(
+      ({ owner, repo }) =>
+        !active.has(repoKey(owner, repo)) && pushed.has(repoKey(owner, repo))
+    );
+    console.error(
+      `  Checking ${candidates.length} repositories without PR activity for releases...`
+    );
+    activeRepos.push(
+      ...(await findReleaseActivity(config, source, candidates, startDate, endDate))
+    );
+  }
+
+  return activeRepos;
+}
+
+/**
+ * Discover repositories from config that have PR activity in the timeframe.
+ * If `repos` is given, only those repos are checked instead of the ones
+ * derived from the teams configuration.
+ */
+export async function discoverReposWithActivity(
+  config: AppConfig,
+  source: GitHubDataSource,
+  startDate: Date,
+  endDate: Date,
+  matcher: TeamMatcher,
+  repos?: Array<{ owner: string; repo: string }>
+): Promise<RepoActivity[]> {
+  if (config.github.discovery === "search") {
+    try {
+      return await discoverBySearch(
+        config,
+        source,
+        startDate,
+        endDate,
+        matcher,
+        repos
+      );
+    } catch (error) {
+      console.warn(
+        "  Org-wide search failed, checking repositories individually:",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
   }
 
+  let reposFromConfig: Array<{ owner: string; repo: string }>;
+  if (repos) {
+    reposFromConfig = repos;
+    console.error(`  Checking ${reposFromConfig.length} requested repositories...`);
+    await matcher.resolveCodeowners(repos);
+  } else {
+    // Extract all repos from config (including prefix-based discovery)
+    console.error("  Extracting repositories from config...");
+    reposFromConfig = await extractReposFromConfig(config, source, matcher);
+
+    console.error(
+      `  Checking ${reposFromConfig.length} repositories from config...`
+    );
+  }
+
+  // Check repos for PR activity concurrently, keeping the config order
+  const results = await runWithConcurrency(
+    reposFromConfig,
+    config.concurrency.repos,
+    async ({ owner, repo }) => {
+      const { hasActivity, prCount, mergedCount, closedUnmergedCount } =
+        await checkRepoHasPRsInTimeframe(
+          source,
+          owner,
+          repo,
+          startDate,
+          endDate,
+          config.github.activity
+        );
+
+      if (!hasActivity) {
+        const releaseCount = config.releases.enabled
+          ? await countReleases(config, source, owner, repo, startDate, endDate)
+          : 0;
+        if (releaseCount === 0) {
+          console.error(`  - ${owner}/${repo} has no PRs in timeframe`);
+          return null;
+        }
+        console.error(
+          `  ✓ ${owner}/${repo} has no PRs but ${releaseCount} release(s) in timeframe`
+        );
+        return { owner, repo, prCount, mergedCount, closedUnmergedCount, releaseCount };
+      }
+
+      console.error(
+        `  ✓ ${owner}/${repo} has ${mergedCount} merged and ${closedUnmergedCount} closed-unmerged PR(s) in timeframe`
+      );
+      return { owner, repo, prCount, mergedCount, closedUnmergedCount };
+    }
+  );
+
+  const activeRepos = results.filter(
+    (result): result is RepoActivity => result !== null
+  );
   return activeRepos;
 }
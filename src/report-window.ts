@@ -0,0 +1,116 @@
+import {
+  addDays,
+  addMilliseconds,
+  differenceInCalendarDays,
+  endOfDay,
+  endOfISOWeek,
+  endOfMonth,
+  parseISO,
+  startOfISOWeek,
+  startOfMonth,
+  subDays,
+  subMonths,
+  subWeeks,
+} from "date-fns";
+import type { AppConfig, SprintConfig, WindowMode } from "./config.js";
+
+export interface ReportingWindow {
+  startDate: Date;
+  endDate: Date;
+  // The configured mode, or "custom" for dates given on the command line
+  mode: WindowMode | "custom";
+  // How the window was chosen, e.g. "last ISO week"
+  description: string;
+}
+
+/**
+ * Make the configured timezone the process's local time. date-fns works in
+ * local time, so window boundaries and every date shown follow it.
+ */
+export function useTimezone(timezone: string): void {
+  process.env.TZ = timezone;
+}
+
+// The last sprint that ended before today, counting sprints from the anchor
+function lastSprint(
+  sprint: SprintConfig,
+  now: Date
+): { startDate: Date; endDate: Date } {
+  const anchor = parseISO(sprint.anchor);
+  const elapsedDays = differenceInCalendarDays(now, anchor);
+  const currentStart = addDays(
+    anchor,
+    Math.floor(elapsedDays / sprint.lengthDays) * sprint.lengthDays
+  );
+  return {
+    startDate: subDays(currentStart, sprint.lengthDays),
+    endDate: endOfDay(subDays(currentStart, 1)),
+  };
+}
+
+function rollingWindow(config: AppConfig, now: Date, note = ""): ReportingWindow {
+  return {
+    startDate: subDays(now, config.github.timeframeDays),
+    endDate: now,
+    mode: config.window.mode,
+    description: `last ${config.github.timeframeDays} days${note}`,
+  };
+}
+
+/**
+ * The window an edition generated at `now` covers. Calendar windows are the
+ * last full week, month or sprint before today and end on the last
+ * millisecond of their final day, so consecutive editions neither overlap
+ * nor leave gaps. "since-last-edition" starts right after `lastPublishedEnd`,
+ * the end of the last published edition, and falls back to a rolling window
+ * when there is none.
+ */
+export function getReportingWindow(
+  config: AppConfig,
+  now: Date,
+  lastPublishedEnd?: Date
+): ReportingWindow {
+  switch (config.window.mode) {
+    case "week": {
+      const lastWeek = subWeeks(now, 1);
+      return {
+        startDate: startOfISOWeek(lastWeek),
+        endDate: endOfISOWeek(lastWeek),
+        mode: "week",
+        description: "last ISO week",
+      };
+    }
+    case "month": {
+      const lastMonth = subMonths(now, 1);
+      return {
+        startDate: startOfMonth(lastMonth),
+        endDate: endOfMonth(lastMonth),
+        mode: "month",
+        description: "last month",
+      };
+    }
+    case "sprint":
+      return {
+        ...lastSprint(config.window.sprint!, now),
+        mode: "sprint",
+        description: `last ${config.window.sprint!.lengthDays}-day sprint`,
+      };
+    case "since-last-edition":
+      if (!lastPublishedEnd) {
+        return rollingWindow(config, now, ", no published edition yet");
+      }
+      if (lastPublishedEnd >= now) {
+        throw new Error(
+          `The last published edition already covers up to ${lastPublishedEnd.toISOString()}`
+        );
+      }
+      return {
+        startDate: addMilliseconds(lastPublishedEnd, 1),
+        endDate: now,
+        mode: "since-last-edition",
+        description: "since the last published edition",
+      };
+    default:
+      return rollingWindow(config, now);
+  }
+}
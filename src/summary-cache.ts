@@ -0,0 +1,169 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+
+export interface CachedPullRequestSummary {
+  summary: string;
+  breakingChanges: string[];
+}
+
+/**
+ * Identifies one version of a PR: a PR that is updated after being cached
+ * (new commits, edited description, reopened) gets a new key
+ */
+export interface PullRequestVersion {
+  owner: string;
+  repo: string;
+  number: number;
+  mergedAt: string | null;
+  updatedAt: string;
+}
+
+type CacheBucket =
+  | "summaries"
+  | "details"
+  | "overall"
+  | "highlights"
+  | "ownership"
+  | "history";
+
+// Team access and CODEOWNERS files change without a version to key on, so they expire
+const OWNERSHIP_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * On-disk cache of LLM summaries and fetched PR details, so that reruns over
+ * an overlapping window only send new or changed PRs to the model
+ */
+export class SummaryCache {
+  private directory: string;
+  private model: string;
+  private promptVersion: string;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(directory: string, model: string, promptVersion: string) {
+    this.directory = directory;
+    this.model = model;
+    this.promptVersion = promptVersion;
+  }
+
+  private prKey(pr: PullRequestVersion): string {
+    return `${pr.owner}/${pr.repo}#${pr.number}@${pr.mergedAt || ""}/${pr.updatedAt}`;
+  }
+
+  private path(bucket: CacheBucket, key: string): string {
+    const hash = createHash("sha256").update(key).digest("hex");
+    return join(this.directory, bucket, `${hash}.json`);
+  }
+
+  private read<T>(
+    bucket: CacheBucket,
+    key: string,
+    maxAgeMs?: number
+  ): T | undefined {
+    const path = this.path(bucket, key);
+    if (!existsSync(path)) {
+      this.misses++;
+      return undefined;
+    }
+    try {
+      const entry = JSON.parse(readFileSync(path, "utf-8"));
+      if (
+        maxAgeMs !== undefined &&
+        Date.now() - new Date(entry.cachedAt).getTime() > maxAgeMs
+      ) {
+        this.misses++;
+        return undefined;
+      }
+      this.hits++;
+      return entry.value as T;
+    } catch {
+      // A corrupt entry is treated as a miss and overwritten on the next write
+      this.misses++;
+      return undefined;
+    }
+  }
+
+  private write(bucket: CacheBucket, key: string, value: unknown): void {
+    mkdirSync(join(this.directory, bucket), { recursive: true });
+    writeFileSync(
+      this.path(bucket, key),
+      JSON.stringify({ key, cachedAt: new Date().toISOString(), value }, null, 2),
+      "utf-8"
+    );
+  }
+
+  // Summaries depend on the model and prompt, so both are part of the key
+  private summaryKey(pr: PullRequestVersion): string {
+    return `${this.prKey(pr)}|${this.model}|${this.promptVersion}`;
+  }
+
+  getSummary(pr: PullRequestVersion): CachedPullRequestSummary | undefined {
+    return this.read("summaries", this.summaryKey(pr));
+  }
+
+  setSummary(pr: PullRequestVersion, summary: CachedPullRequestSummary): void {
+    this.write("summaries", this.summaryKey(pr), summary);
+  }
+
+  // Fetched details only depend on the PR version and the request made
+  getDetails(pr: PullRequestVersion, request: string): string | undefined {
+    return this.read("details", `${this.prKey(pr)}|${request}`);
+  }
+
+  setDetails(pr: PullRequestVersion, request: string, content: string): void {
+    this.write("details", `${this.prKey(pr)}|${request}`, content);
+  }
+
+  private overallKey(prs: PullRequestVersion[]): string {
+    const prKeys = prs.map((pr) => this.prKey(pr)).sort();
+    return `${prKeys.join(",")}|${this.model}|${this.promptVersion}`;
+  }
+
+  getOverallSummary(prs: PullRequestVersion[]): string | undefined {
+    return this.read("overall", this.overallKey(prs));
+  }
+
+  setOverallSummary(prs: PullRequestVersion[], summary: string): void {
+    this.write("overall", this.overallKey(prs), summary);
+  }
+
+  // Team and org highlights are keyed by the summaries they were written from
+  private highlightsKey(input: string): string {
+    return `${input}|${this.model}|${this.promptVersion}`;
+  }
+
+  getHighlights(input: string): string | undefined {
+    return this.read("highlights", this.highlightsKey(input));
+  }
+
+  setHighlights(input: string, highlights: string): void {
+    this.write("highlights", this.highlightsKey(input), highlights);
+  }
+
+  // Ownership data such as a team's repos or a repo's CODEOWNERS, by lookup
+  getOwnership<T>(key: string): T | undefined {
+    return this.read("ownership", key, OWNERSHIP_TTL_MS);
+  }
+
+  setOwnership(key: string, value: unknown): void {
+    this.write("ownership", key, value);
+  }
+
+  // Facts about a repo's past, such as whether someone contributed before a date, which never change
+  getHistory<T>(key: string): T | undefined {
+    return this.read("history", key);
+  }
+
+  setHistory(key: string, value: unknown): void {
+    this.write("history", key, value);
+  }
+
+  getStats(): { hits: number; misses: number } {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  clear(): void {
+    rmSync(this.directory, { recursive: true, force: true });
+  }
+}
@@ -1,49 +1,75 @@
-import type { AppConfig, TeamsConfig } from './config.js';
+import type { AppConfig, TeamConfig, TeamsConfig } from './config.js';
 import type { RepoSummary } from './openai-agent.js';
+import type { PullRequestState } from './pr-collector.js';
+import type { TeamMatcher } from './team-matcher.js';
 
 export interface TeamGroupedSummaries {
   [teamName: string]: RepoSummary[];
 }
 
+/**
+ * The PR states a team shows, from its section toggles. Repos outside any
+ * team show everything.
+ */
+export function getTeamPullRequestStates(teamConfig: TeamConfig | undefined): PullRequestState[] {
+  const sections = teamConfig?.sections || {};
+  const states: PullRequestState[] = [];
+  if (sections.merged !== false) states.push('merged');
+  if (sections.closedUnmerged !== false) states.push('closed');
+  if (sections.inFlight !== false) states.push('open');
+  return states;
+}
+
+/**
+ * The PR states to collect for a repo: those shown by any team it belongs to
+ */
+export function getRepoPullRequestStates(
+  owner: string,
+  repoName: string,
+  teamsConfig: TeamsConfig,
+  matcher: TeamMatcher
+): PullRequestState[] {
+  const teams = matcher.findTeams(owner, repoName);
+  if (teams.length === 0) {
+    return getTeamPullRequestStates(undefined);
+  }
+  const states = new Set(teams.flatMap((teamName) => getTeamPullRequestStates(teamsConfig[teamName])));
+  return getTeamPullRequestStates(undefined).filter((state) => states.has(state));
+}
+
+// Drop the PRs, and their breaking changes, that the team does not show
+function filterRepoSummary(summary: RepoSummary, states: PullRequestState[]): RepoSummary {
+  const pullRequests = summary.pullRequests.filter((pr) => states.includes(pr.state));
+  const shown = new Set(pullRequests.map((pr) => pr.number));
+  return {
+    ...summary,
+    pullRequests,
+    breakingChanges: summary.breakingChanges.filter((change) => shown.has(change.prNumber))
+  };
+}
+
+/**
+ * Group summaries by team. A repo that matches several teams is listed under
+ * each of them when team matching is "all"; repos without a team go under
+ * "Unassigned".
+ */
 export function groupReposByTeam(
   repoSummaries: RepoSummary[],
-  teamsConfig: TeamsConfig
+  teamsConfig: TeamsConfig,
+  matcher: TeamMatcher
 ): TeamGroupedSummaries {
   const grouped: TeamGroupedSummaries = {};
-  const teamNames = Object.keys(teamsConfig);
 
   for (const summary of repoSummaries) {
-    const repoName = summary.repoName;
-    let matchedTeam: string | null = null;
-
-    // Check each team configuration
-    for (const teamName of teamNames) {
-      const teamConfig = teamsConfig[teamName];
-
-      // Check exact repo name matches
-      if (teamConfig.repos && teamConfig.repos.includes(repoName)) {
-        matchedTeam = teamName;
-        break;
-      }
+    const matchedTeams = matcher.findTeams(summary.owner, summary.repoName, summary.ownership);
+    const assignedTeams = matchedTeams.length > 0 ? matchedTeams : ['Unassigned'];
 
-      // Check prefix patterns
-      if (teamConfig.prefixes) {
-        for (const prefix of teamConfig.prefixes) {
-          if (repoName.startsWith(prefix)) {
-            matchedTeam = teamName;
-            break;
-          }
-        }
-        if (matchedTeam) break;
+    for (const teamName of assignedTeams) {
+      if (!grouped[teamName]) {
+        grouped[teamName] = [];
       }
+      grouped[teamName].push(filterRepoSummary(summary, getTeamPullRequestStates(teamsConfig[teamName])));
     }
-
-    // Assign to matched team or "Unassigned"
-    const assignedTeam = matchedTeam || 'Unassigned';
-    if (!grouped[assignedTeam]) {
-      grouped[assignedTeam] = [];
-    }
-    grouped[assignedTeam].push(summary);
   }
 
   return grouped;
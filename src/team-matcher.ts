@@ -0,0 +1,286 @@
+import type { TeamConfig, TeamMatchingMode, TeamsConfig } from './config.js';
+
+// The kinds of rule a team can match a repo by, most specific first
+export type TeamRuleKind = 'repo' | 'github-team' | 'prefix' | 'glob' | 'pattern' | 'topic' | 'codeowners';
+
+/**
+ * What GitHub says about who owns a repo, as far as team rules use it: its
+ * topics, the org teams with access to it and the owners in its CODEOWNERS
+ */
+export interface RepoOwnership {
+  topics?: string[];
+  githubTeams?: string[];
+  codeowners?: string[];
+}
+
+// Reads the owners listed in a repo's CODEOWNERS file
+export type CodeownersLoader = (owner: string, repo: string) => Promise<string[]>;
+
+export interface TeamMatcherOptions {
+  // Keyed by `repoKey`
+  ownership?: Map<string, RepoOwnership>;
+  loadCodeowners?: CodeownersLoader;
+  // The owner of repos that team rules name without one
+  organization?: string;
+}
+
+export interface TeamRuleMatch {
+  teamName: string;
+  rule: TeamRuleKind;
+  value: string;
+  priority: number;
+}
+
+/**
+ * Why a repo was assigned to the teams it was: every team rule that matched
+ * it, the exclusions that vetoed a match, and the teams it ended up in
+ */
+export interface TeamMatchExplanation {
+  owner: string;
+  repoName: string;
+  ownership: RepoOwnership;
+  matches: TeamRuleMatch[];
+  excludedBy: Array<{ teamName: string; value: string }>;
+  teams: string[];
+}
+
+/**
+ * Split an "owner/name" rule value into the owner it is scoped to and the
+ * rest; values without a "/" are not scoped to an owner
+ */
+export function splitOwner(value: string): { owner?: string; name: string } {
+  const slash = value.indexOf('/');
+  return slash === -1 ? { name: value } : { owner: value.slice(0, slash), name: value.slice(slash + 1) };
+}
+
+// GitHub owner and repo names are case-insensitive, so repos are keyed lowercased
+export function repoKey(owner: string, repoName: string): string {
+  return `${owner}/${repoName}`.toLowerCase();
+}
+
+function sameOwner(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Turn a glob such as "coaching-*-api" into an anchored regex; `*` matches
+ * any run of characters and `?` a single character
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * The literal start of a glob, which GitHub search can narrow results by
+ */
+export function globPrefix(glob: string): string {
+  const wildcard = glob.search(/[*?]/);
+  return wildcard === -1 ? glob : glob.slice(0, wildcard);
+}
+
+// A prefix, glob or exclusion, with the owner it is scoped to if any
+interface CompiledRule {
+  value: string;
+  owner?: string;
+  regex: RegExp;
+}
+
+// Prefixes compile to the glob "prefix*"
+function compileScopedGlob(value: string, suffix = ''): CompiledRule {
+  const { owner, name } = splitOwner(value);
+  return { value, owner, regex: globToRegExp(`${name}${suffix}`) };
+}
+
+interface CompiledTeam {
+  teamName: string;
+  priority: number;
+  order: number;
+  config: TeamConfig;
+  prefixes: CompiledRule[];
+  globs: CompiledRule[];
+  patterns: Array<{ value: string; regex: RegExp }>;
+  exclude: CompiledRule[];
+  // CODEOWNERS handles that stand for the team, lowercased
+  codeowners: string[];
+}
+
+/**
+ * Assigns repos to teams. Within a team the first matching rule is reported,
+ * checked in the order repo name, GitHub team, prefix, glob, regex pattern,
+ * topic; a repo matching one of the team's `exclude` globs never belongs to
+ * it. CODEOWNERS is only consulted for repos no other rule assigns.
+ *
+ * Repo names without an owner stand for repos of the primary organization;
+ * prefixes, globs and exclusions written "org/..." only apply to that org's
+ * repos and the others to repos of any owner.
+ *
+ * In "best" mode a repo goes to the matching team with the highest priority,
+ * earlier teams in the config winning ties; in "all" mode it goes to every
+ * matching team.
+ */
+export class TeamMatcher {
+  private teams: CompiledTeam[];
+  private mode: TeamMatchingMode;
+  private ownership: Map<string, RepoOwnership>;
+  private loadCodeowners?: CodeownersLoader;
+  private organization?: string;
+
+  constructor(teamsConfig: TeamsConfig, mode: TeamMatchingMode = 'best', options: TeamMatcherOptions = {}) {
+    this.mode = mode;
+    this.ownership = options.ownership || new Map();
+    this.loadCodeowners = options.loadCodeowners;
+    this.organization = options.organization;
+    this.teams = Object.entries(teamsConfig)
+      .map(([teamName, config], order) => ({
+        teamName,
+        priority: config.priority ?? 0,
+        order,
+        config,
+        prefixes: (config.prefixes || []).map((value) => compileScopedGlob(value, '*')),
+        globs: (config.globs || []).map((value) => compileScopedGlob(value)),
+        patterns: (config.patterns || []).map((value) => ({ value, regex: new RegExp(value) })),
+        exclude: (config.exclude || []).map((value) => compileScopedGlob(value)),
+        codeowners: (config.codeowners || []).map((handle) => handle.toLowerCase())
+      }))
+      .sort((a, b) => b.priority - a.priority || a.order - b.order);
+  }
+
+  // Repos that GitHub topics or team access tie to some team
+  getOwnedRepos(): Array<{ owner: string; repo: string }> {
+    return Array.from(this.ownership.keys()).map((key) => {
+      const { owner, name } = splitOwner(key);
+      return { owner: owner!, repo: name };
+    });
+  }
+
+  getOwnership(owner: string, repoName: string): RepoOwnership {
+    return this.ownership.get(repoKey(owner, repoName)) || {};
+  }
+
+  /**
+   * Read the CODEOWNERS files of the given repos that no other rule assigns,
+   * so they can be matched on their owners
+   */
+  async resolveCodeowners(repos: Array<{ owner: string; repo: string }>): Promise<void> {
+    const loadCodeowners = this.loadCodeowners;
+    const usesCodeowners = this.teams.some((team) => team.codeowners.length > 0 || team.config.githubTeam);
+    if (!loadCodeowners || !usesCodeowners) {
+      return;
+    }
+
+    for (const { owner, repo } of repos) {
+      const ownership = this.getOwnership(owner, repo);
+      if (ownership.codeowners || this.findTeams(owner, repo).length > 0) {
+        continue;
+      }
+      this.ownership.set(repoKey(owner, repo), { ...ownership, codeowners: await loadCodeowners(owner, repo) });
+    }
+  }
+
+  // The first rule matching the repo; rules without an owner apply to every owner
+  private findScoped(rules: CompiledRule[], owner: string, repoName: string): CompiledRule | undefined {
+    return rules.find((rule) => (rule.owner === undefined || sameOwner(rule.owner, owner)) && rule.regex.test(repoName));
+  }
+
+  private isListed(value: string, owner: string, repoName: string): boolean {
+    const listed = splitOwner(value);
+    if (listed.name !== repoName) return false;
+    if (listed.owner !== undefined) return sameOwner(listed.owner, owner);
+    return this.organization === undefined || sameOwner(this.organization, owner);
+  }
+
+  private matchRule(
+    team: CompiledTeam,
+    owner: string,
+    repoName: string,
+    ownership: RepoOwnership
+  ): TeamRuleMatch | null {
+    const match = (rule: TeamRuleKind, value: string): TeamRuleMatch => ({
+      teamName: team.teamName,
+      rule,
+      value,
+      priority: team.priority
+    });
+
+    const repo = team.config.repos?.find((value) => this.isListed(value, owner, repoName));
+    if (repo) return match('repo', repo);
+    if (team.config.githubTeam && ownership.githubTeams?.includes(team.config.githubTeam)) {
+      return match('github-team', team.config.githubTeam);
+    }
+    const prefix = this.findScoped(team.prefixes, owner, repoName);
+    if (prefix) return match('prefix', prefix.value);
+    const glob = this.findScoped(team.globs, owner, repoName);
+    if (glob) return match('glob', glob.value);
+    const pattern = team.patterns.find(({ regex }) => regex.test(repoName));
+    if (pattern) return match('pattern', pattern.value);
+    const topic = team.config.topics?.find((value) => ownership.topics?.includes(value));
+    if (topic) return match('topic', topic);
+    return null;
+  }
+
+  // Org team owners are written @org/slug; an unscoped slug matches in any org
+  private matchCodeowners(team: CompiledTeam, ownership: RepoOwnership): TeamRuleMatch | null {
+    const githubTeam = team.config.githubTeam?.toLowerCase();
+    const handle = githubTeam?.includes('/') ? `@${githubTeam}` : undefined;
+    const owner = ownership.codeowners?.find((value) => {
+      const lowered = value.toLowerCase();
+      return (
+        team.codeowners.includes(lowered) ||
+        (githubTeam !== undefined && (handle ? lowered === handle : lowered.endsWith(`/${githubTeam}`)))
+      );
+    });
+    return owner ? { teamName: team.teamName, rule: 'codeowners', value: owner, priority: team.priority } : null;
+  }
+
+  explain(
+    owner: string,
+    repoName: string,
+    ownership: RepoOwnership = this.getOwnership(owner, repoName)
+  ): TeamMatchExplanation {
+    const matches: TeamRuleMatch[] = [];
+    const excludedBy: Array<{ teamName: string; value: string }> = [];
+
+    const collect = (matchTeam: (team: CompiledTeam) => TeamRuleMatch | null) => {
+      for (const team of this.teams) {
+        const match = matchTeam(team);
+        if (!match) continue;
+        const exclusion = this.findScoped(team.exclude, owner, repoName);
+        if (exclusion) {
+          excludedBy.push({ teamName: team.teamName, value: exclusion.value });
+        } else {
+          matches.push(match);
+        }
+      }
+    };
+
+    collect((team) => this.matchRule(team, owner, repoName, ownership));
+    if (matches.length === 0) {
+      collect((team) => this.matchCodeowners(team, ownership));
+    }
+
+    const assigned = this.mode === 'all' ? matches : matches.slice(0, 1);
+    return {
+      owner,
+      repoName,
+      ownership,
+      matches,
+      excludedBy,
+      teams: assigned.map((match) => match.teamName)
+    };
+  }
+
+  /**
+   * The teams a repo belongs to, best match first; empty if none
+   */
+  findTeams(owner: string, repoName: string, ownership?: RepoOwnership): string[] {
+    return this.explain(owner, repoName, ownership).teams;
+  }
+}
@@ -0,0 +1,136 @@
+import type { AppConfig } from "./config.js";
+import type { GitHubDataSource, RepoRef } from "./github-data-source.js";
+import type { SummaryCache } from "./summary-cache.js";
+import { repoKey, splitOwner } from "./team-matcher.js";
+import type { CodeownersLoader } from "./team-matcher.js";
+
+// GitHub reads the first CODEOWNERS file it finds in these locations
+const CODEOWNERS_PATHS = [".github/CODEOWNERS", "CODEOWNERS", "docs/CODEOWNERS"];
+
+/**
+ * The owners in a CODEOWNERS file: those of the catch-all `*` rule when there
+ * is one (the last one wins, as in GitHub), otherwise everyone listed
+ */
+export function parseCodeowners(content: string): string[] {
+  const rules = content
+    .split("\n")
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      const [pattern, ...owners] = line.split(/\s+/);
+      return { pattern, owners: owners.filter((owner) => owner.startsWith("@")) };
+    });
+
+  const defaultRule = rules.filter((rule) => rule.pattern === "*").pop();
+  const owners = defaultRule
+    ? defaultRule.owners
+    : rules.flatMap((rule) => rule.owners);
+  return Array.from(new Set(owners));
+}
+
+async function listAllTeamRepositories(
+  source: GitHubDataSource,
+  organization: string,
+  teamSlug: string
+): Promise<RepoRef[]> {
+  const repos: RepoRef[] = [];
+  const perPage = 100;
+
+  for (let page = 1; ; page++) {
+    const pageRepos = await source.listTeamRepositories(organization, teamSlug, {
+      perPage,
+      page,
+    });
+    repos.push(...pageRepos);
+    if (pageRepos.length < perPage) {
+      return repos;
+    }
+  }
+}
+
+/**
+ * Find the repos each configured GitHub org team has access to, as a map
+ * from `repoKey` to the teams' configured names. Teams named without an org
+ * belong to the primary organization. Lookups are cached for a day.
+ */
+export async function loadGitHubTeamRepos(
+  config: AppConfig,
+  source: GitHubDataSource,
+  cache: SummaryCache | null
+): Promise<Map<string, string[]>> {
+  const githubTeams = Array.from(
+    new Set(
+      Object.values(config.teams)
+        .map((team) => team.githubTeam)
+        .filter((githubTeam): githubTeam is string => Boolean(githubTeam))
+    )
+  );
+  const repoTeams = new Map<string, string[]>();
+
+  for (const githubTeam of githubTeams) {
+    const { owner, name: slug } = splitOwner(githubTeam);
+    const organization = owner || config.github.organization;
+    const cacheKey = `team:${organization}/${slug}`;
+    let repoNames = cache?.getOwnership<string[]>(cacheKey);
+    if (!repoNames) {
+      console.error(`  Listing repositories of GitHub team ${organization}/${slug}`);
+      try {
+        const repos = await listAllTeamRepositories(source, organization, slug);
+        repoNames = repos
+          .filter((repo) => repo.owner.toLowerCase() === organization.toLowerCase())
+          .map((repo) => repo.repo);
+        cache?.setOwnership(cacheKey, repoNames);
+      } catch (error) {
+        console.warn(
+          `  ⚠ Could not list repositories of GitHub team ${organization}/${slug}:`,
+          error instanceof Error ? error.message : String(error)
+        );
+        continue;
+      }
+    }
+
+    for (const repoName of repoNames) {
+      const key = repoKey(organization, repoName);
+      repoTeams.set(key, [...(repoTeams.get(key) || []), githubTeam]);
+    }
+  }
+
+  return repoTeams;
+}
+
+/**
+ * Read the owners from a repo's CODEOWNERS file, caching the result for a
+ * day; repos without one, or whose file cannot be read, have no owners
+ */
+export function createCodeownersLoader(
+  source: GitHubDataSource,
+  cache: SummaryCache | null
+): CodeownersLoader {
+  return async (owner, repo) => {
+    const cacheKey = `codeowners:${owner}/${repo}`;
+    const cached = cache?.getOwnership<string[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    let owners: string[] = [];
+    try {
+      for (const path of CODEOWNERS_PATHS) {
+        const content = await source.getFileContents(owner, repo, path);
+        if (content !== null) {
+          owners = parseCodeowners(content);
+          break;
+        }
+      }
+    } catch (error) {
+      console.warn(
+        `  ⚠ Could not read CODEOWNERS for ${owner}/${repo}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+      return [];
+    }
+
+    cache?.setOwnership(cacheKey, owners);
+    return owners;
+  };
+}
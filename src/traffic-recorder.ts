@@ -0,0 +1,169 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { LLMConfig } from "./config.js";
+import type { MCPToolResult } from "./mcp-client.js";
+import type { ChatRequest, ChatResponse, LLMProvider } from "./llm-provider.js";
+import type { ReportingWindow } from "./report-window.js";
+
+// "record" saves every GitHub and LLM exchange, "replay" serves them back offline
+export type TrafficMode = "record" | "replay";
+
+type TrafficKind = "mcp" | "github" | "llm";
+
+// A request made by the native GitHub API client
+export interface GitHubHttpRequest {
+  method: string;
+  url: string;
+  accept: string;
+  body?: unknown;
+}
+
+// The window a recording was made for, so a replay sends the same requests
+export interface RecordedRun {
+  startDate: string;
+  endDate: string;
+  // How the window was chosen; missing in older recordings
+  window?: Pick<ReportingWindow, "mode" | "description">;
+}
+
+/**
+ * A directory of recorded requests and responses. Each exchange is stored
+ * under a hash of its request, so replays do not depend on the order in
+ * which concurrent workers made their calls.
+ */
+export class TrafficFixtures {
+  readonly directory: string;
+  readonly mode: TrafficMode;
+
+  constructor(directory: string, mode: TrafficMode) {
+    this.directory = directory;
+    this.mode = mode;
+  }
+
+  private path(kind: TrafficKind, label: string, request: unknown): string {
+    const hash = createHash("sha256")
+      .update(JSON.stringify(request))
+      .digest("hex")
+      .slice(0, 16);
+    const name = label.replace(/[^\w.-]+/g, "_");
+    return join(this.directory, kind, `${name}-${hash}.json`);
+  }
+
+  private write(kind: TrafficKind, label: string, request: unknown, response: unknown): void {
+    mkdirSync(join(this.directory, kind), { recursive: true });
+    writeFileSync(
+      this.path(kind, label, request),
+      JSON.stringify({ request, response }, null, 2),
+      "utf-8"
+    );
+  }
+
+  private read<T>(kind: TrafficKind, label: string, request: unknown): T | undefined {
+    const path = this.path(kind, label, request);
+    if (!existsSync(path)) {
+      return undefined;
+    }
+    return JSON.parse(readFileSync(path, "utf-8")).response as T;
+  }
+
+  recordToolCall(toolName: string, args: Record<string, any>, result: MCPToolResult): void {
+    this.write("mcp", toolName, { toolName, args }, result);
+  }
+
+  replayToolCall(toolName: string, args: Record<string, any>): MCPToolResult {
+    const result = this.read<MCPToolResult>("mcp", toolName, { toolName, args });
+    if (result) {
+      return result;
+    }
+    console.warn(`  ⚠ No recorded response for ${toolName} ${JSON.stringify(args)}`);
+    return {
+      content: [
+        {
+          type: "text",
+          text: `No recorded response for ${toolName} in ${this.directory}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  recordGitHubRequest(label: string, request: GitHubHttpRequest, response: unknown): void {
+    this.write("github", label, request, response);
+  }
+
+  replayGitHubRequest<T>(label: string, request: GitHubHttpRequest): T {
+    const response = this.read<T>("github", label, request);
+    if (response === undefined) {
+      throw new Error(`No recorded response for ${request.method} ${request.url} in ${this.directory}`);
+    }
+    return response;
+  }
+
+  recordChat(request: ChatRequest, response: ChatResponse): void {
+    this.write("llm", "chat", request, response);
+  }
+
+  replayChat(request: ChatRequest): ChatResponse {
+    const response = this.read<ChatResponse>("llm", "chat", request);
+    if (!response) {
+      throw new Error(
+        `No recorded LLM response for this request in ${this.directory}; the prompts or PR data differ from the recording`
+      );
+    }
+    // Recorded rate-limit headers would only slow the replay down
+    return { ...response, rateLimits: [] };
+  }
+
+  saveRun(run: RecordedRun): void {
+    mkdirSync(this.directory, { recursive: true });
+    writeFileSync(join(this.directory, "run.json"), JSON.stringify(run, null, 2), "utf-8");
+  }
+
+  loadRun(): RecordedRun | undefined {
+    const path = join(this.directory, "run.json");
+    return existsSync(path) ? JSON.parse(readFileSync(path, "utf-8")) : undefined;
+  }
+}
+
+/**
+ * Passes requests through to a real provider and records each exchange
+ */
+export class RecordingLLMProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private provider: LLMProvider;
+  private fixtures: TrafficFixtures;
+
+  constructor(provider: LLMProvider, fixtures: TrafficFixtures) {
+    this.provider = provider;
+    this.fixtures = fixtures;
+    this.name = provider.name;
+    this.model = provider.model;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const response = await this.provider.chat(request);
+    this.fixtures.recordChat(request, response);
+    return response;
+  }
+}
+
+/**
+ * Serves recorded responses without contacting any provider
+ */
+export class ReplayLLMProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private fixtures: TrafficFixtures;
+
+  constructor(config: LLMConfig, fixtures: TrafficFixtures) {
+    this.name = `${config.provider} (replay)`;
+    this.model = config.model;
+    this.fixtures = fixtures;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    return this.fixtures.replayChat(request);
+  }
+}
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildSlackMessages, buildTeamsCards } from '../src/chat-publisher.js';
+import type { RepoSummary } from '../src/openai-agent.js';
+import type { ReportingWindow } from '../src/report-window.js';
+
+const MONTH: ReportingWindow = {
+  startDate: new Date(2024, 0, 1),
+  endDate: new Date(2024, 0, 31, 23, 59, 59, 999),
+  mode: 'month',
+  description: 'last month'
+};
+
+function pullRequest(number: number, summary: string): RepoSummary['pullRequests'][number] {
+  return {
+    number,
+    title: `Change ${number}`,
+    author: 'octocat',
+    state: 'merged',
+    date: '2024-01-15',
+    url: `https://github.com/acme/api/pull/${number}`,
+    summary
+  };
+}
+
+function repo(repoName: string, pullRequests: number, overallSummary = 'Busy month'): RepoSummary {
+  return {
+    repoName,
+    owner: 'acme',
+    overallSummary,
+    pullRequests: Array.from({ length: pullRequests }, (_, index) => pullRequest(index + 1, 'x'.repeat(300))),
+    breakingChanges: []
+  };
+}
+
+function cardBytes(card: unknown): number {
+  return Buffer.byteLength(JSON.stringify(card), 'utf-8');
+}
+
+function cardTexts(card: ReturnType<typeof buildTeamsCards>[number]): string[] {
+  return card.attachments[0].content.body.map((element) => element.text || '');
+}
+
+describe('buildSlackMessages', () => {
+  it('keeps every message within 50 blocks', () => {
+    const messages = buildSlackMessages('Platform', [repo('api', 5), repo('web', 5), repo('cli', 5)], MONTH);
+
+    assert.ok(messages.every((message) => message.blocks.length <= 50));
+    assert.equal(messages[0].text, 'Platform - Monthly Newsletter - January 2024');
+  });
+
+  it('moves repos that do not fit to a continued message', () => {
+    const repos = Array.from({ length: 30 }, (_, index) => repo(`repo-${index}`, 1));
+    const messages = buildSlackMessages('Platform', repos, MONTH);
+
+    assert.ok(messages.length > 1);
+    assert.ok(messages.every((message) => message.blocks.length <= 50));
+    assert.match(messages[1].text, /\(continued\)$/);
+  });
+
+  it('names the period in the breaking change banner', () => {
+    const risky = { ...repo('api', 1), breakingChanges: [{ prNumber: 1, description: 'Drops v1' }] };
+    const [message] = buildSlackMessages('Platform', [risky], MONTH);
+
+    assert.ok(message.blocks.some((block) => block.text?.text.includes('1 high-risk/breaking change(s) this month')));
+  });
+});
+
+describe('buildTeamsCards', () => {
+  it('splits repos across cards under the payload limit', () => {
+    const cards = buildTeamsCards('Platform', [repo('api', 50), repo('web', 50), repo('cli', 50)], MONTH);
+
+    assert.ok(cards.length > 1);
+    assert.ok(cards.every((card) => cardBytes(card) <= 24000));
+    assert.match(cardTexts(cards[1])[0], /\(continued\)$/);
+  });
+
+  it('trims an oversized repo and notes how many items were left out', () => {
+    const [card, ...rest] = buildTeamsCards('Platform', [repo('api', 200)], MONTH);
+    const texts = cardTexts(card);
+
+    assert.equal(rest.length, 0);
+    assert.ok(cardBytes(card) <= 24000);
+    assert.ok(texts.includes('api'));
+    const listed = texts.filter((text) => text.startsWith('- ')).length;
+    assert.equal(texts[texts.length - 1], `…${200 - listed} item(s) omitted, see the full newsletter`);
+  });
+
+  it('truncates a single oversized text block instead of leaving the header on its own', () => {
+    const cards = buildTeamsCards('Platform', [repo('api', 1, 'é'.repeat(50000))], MONTH, 'h'.repeat(50000));
+
+    assert.equal(cards.length, 1);
+    assert.ok(cardBytes(cards[0]) <= 24000);
+    assert.ok(cardTexts(cards[0]).includes('api'));
+  });
+});
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { NewsletterArchive } from "../src/newsletter-archive.js";
+import type { NewsletterData } from "../src/newsletter-generator.js";
+import { useTimezone } from "../src/report-window.js";
+
+function edition(
+  startDate: string,
+  endDate: string,
+  overrides: Partial<NewsletterData> = {}
+): NewsletterData {
+  return {
+    organization: "acme",
+    startDate,
+    endDate,
+    summaries: [],
+    window: { mode: "week", description: "last ISO week" },
+    ...overrides,
+  };
+}
+
+describe("NewsletterArchive", () => {
+  let directory: string;
+  let archive: NewsletterArchive;
+
+  beforeEach(() => {
+    // Edition ids are the window's dates in local time
+    useTimezone("UTC");
+    directory = mkdtempSync(join(tmpdir(), "newsletter-archive-"));
+    archive = new NewsletterArchive(directory);
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("keeps a published window published when a rerun delivers nothing", () => {
+    const week = edition("2024-01-08T00:00:00.000Z", "2024-01-14T23:59:59.999Z");
+    const path = archive.save("acme", { ...week, published: true });
+    archive.save("acme", { ...week, published: false });
+
+    assert.equal(JSON.parse(readFileSync(path, "utf-8")).published, true);
+    assert.equal(archive.findLastPublished("acme")?.path, path);
+  });
+
+  it("marks an unpublished window published once a rerun delivers it", () => {
+    const week = edition("2024-01-08T00:00:00.000Z", "2024-01-14T23:59:59.999Z");
+    archive.save("acme", { ...week, published: false });
+    assert.equal(archive.findLastPublished("acme"), undefined);
+
+    archive.save("acme", { ...week, published: true });
+    assert.equal(archive.list("acme")[0].published, true);
+  });
+
+  it("finds the last published edition, skipping unpublished and custom windows", () => {
+    archive.save(
+      "acme",
+      edition("2024-01-01T00:00:00.000Z", "2024-01-07T23:59:59.999Z", { published: true })
+    );
+    archive.save(
+      "acme",
+      edition("2024-01-08T00:00:00.000Z", "2024-01-14T23:59:59.999Z", { published: false })
+    );
+    archive.save(
+      "acme",
+      edition("2024-01-10T00:00:00.000Z", "2024-01-16T00:00:00.000Z", {
+        published: true,
+        window: { mode: "custom", description: "--since and --until" },
+      })
+    );
+
+    assert.equal(archive.findLastPublished("acme")?.id, "2024-01-01_2024-01-07");
+  });
+
+  it("counts editions archived before publishing was tracked as published", () => {
+    const path = archive.save(
+      "acme",
+      edition("2024-01-01T00:00:00.000Z", "2024-01-07T23:59:59.999Z")
+    );
+    const { published, window, ...legacy } = JSON.parse(readFileSync(path, "utf-8"));
+    writeFileSync(path, JSON.stringify(legacy), "utf-8");
+
+    const [listed] = archive.list("acme");
+    assert.equal(listed.published, true);
+    assert.equal(listed.windowMode, undefined);
+    assert.equal(archive.findLastPublished("acme")?.path, path);
+  });
+
+  it("keeps the editions of different archive names apart", () => {
+    archive.save(
+      "acme",
+      edition("2024-01-01T00:00:00.000Z", "2024-01-07T23:59:59.999Z", { published: true })
+    );
+
+    assert.deepEqual(archive.list("acme+acme-labs"), []);
+    assert.equal(archive.findLastPublished("acme+acme-labs"), undefined);
+  });
+});
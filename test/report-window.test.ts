@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import type { AppConfig, WindowConfig } from "../src/config.js";
+import { getReportingWindow, useTimezone } from "../src/report-window.js";
+
+// Only the settings the window depends on
+function configWith(window: Partial<WindowConfig>, timeframeDays = 7): AppConfig {
+  return {
+    github: { timeframeDays },
+    window: { mode: "rolling", timezone: "UTC", ...window },
+  } as unknown as AppConfig;
+}
+
+describe("getReportingWindow", () => {
+  const originalTimezone = process.env.TZ;
+
+  afterEach(() => {
+    useTimezone(originalTimezone ?? "UTC");
+  });
+
+  it("covers the last rolling timeframe up to now", () => {
+    useTimezone("UTC");
+    const now = new Date("2024-01-17T10:00:00.000Z");
+    const window = getReportingWindow(configWith({ mode: "rolling" }, 14), now);
+
+    assert.equal(window.startDate.toISOString(), "2024-01-03T10:00:00.000Z");
+    assert.equal(window.endDate, now);
+    assert.equal(window.description, "last 14 days");
+  });
+
+  it("covers the last full ISO week, Monday to Sunday", () => {
+    useTimezone("UTC");
+    const window = getReportingWindow(
+      configWith({ mode: "week" }),
+      new Date("2024-01-17T10:00:00.000Z")
+    );
+
+    assert.equal(window.startDate.toISOString(), "2024-01-08T00:00:00.000Z");
+    assert.equal(window.endDate.toISOString(), "2024-01-14T23:59:59.999Z");
+    assert.equal(window.mode, "week");
+  });
+
+  it("covers the last full month, across a year boundary and in leap years", () => {
+    useTimezone("UTC");
+    const january = getReportingWindow(
+      configWith({ mode: "month" }),
+      new Date("2024-01-01T00:00:00.000Z")
+    );
+    assert.equal(january.startDate.toISOString(), "2023-12-01T00:00:00.000Z");
+    assert.equal(january.endDate.toISOString(), "2023-12-31T23:59:59.999Z");
+
+    const march = getReportingWindow(
+      configWith({ mode: "month" }),
+      new Date("2024-03-31T23:00:00.000Z")
+    );
+    assert.equal(march.startDate.toISOString(), "2024-02-01T00:00:00.000Z");
+    assert.equal(march.endDate.toISOString(), "2024-02-29T23:59:59.999Z");
+  });
+
+  it("draws calendar boundaries at midnight in the configured timezone", () => {
+    useTimezone("America/New_York");
+    const window = getReportingWindow(
+      configWith({ mode: "week", timezone: "America/New_York" }),
+      new Date("2024-01-17T15:00:00.000Z")
+    );
+
+    assert.equal(window.startDate.toISOString(), "2024-01-08T05:00:00.000Z");
+    assert.equal(window.endDate.toISOString(), "2024-01-15T04:59:59.999Z");
+  });
+
+  it("covers the last sprint that ended before today, counted from the anchor", () => {
+    useTimezone("UTC");
+    const config = configWith({
+      mode: "sprint",
+      sprint: { anchor: "2024-01-01", lengthDays: 14 },
+    });
+
+    for (const now of ["2024-01-15T09:00:00.000Z", "2024-01-28T23:00:00.000Z"]) {
+      const window = getReportingWindow(config, new Date(now));
+      assert.equal(window.startDate.toISOString(), "2024-01-01T00:00:00.000Z");
+      assert.equal(window.endDate.toISOString(), "2024-01-14T23:59:59.999Z");
+      assert.equal(window.description, "last 14-day sprint");
+    }
+
+    const next = getReportingWindow(config, new Date("2024-01-29T00:00:00.000Z"));
+    assert.equal(next.startDate.toISOString(), "2024-01-15T00:00:00.000Z");
+    assert.equal(next.endDate.toISOString(), "2024-01-28T23:59:59.999Z");
+  });
+
+  it("starts a since-last-edition window right after the last published edition", () => {
+    useTimezone("UTC");
+    const now = new Date("2024-01-20T08:00:00.000Z");
+    const window = getReportingWindow(
+      configWith({ mode: "since-last-edition" }),
+      now,
+      new Date("2024-01-14T23:59:59.999Z")
+    );
+
+    assert.equal(window.startDate.toISOString(), "2024-01-15T00:00:00.000Z");
+    assert.equal(window.endDate, now);
+    assert.equal(window.mode, "since-last-edition");
+  });
+
+  it("falls back to the rolling timeframe when no edition was published", () => {
+    useTimezone("UTC");
+    const window = getReportingWindow(
+      configWith({ mode: "since-last-edition" }, 7),
+      new Date("2024-01-20T08:00:00.000Z")
+    );
+
+    assert.equal(window.startDate.toISOString(), "2024-01-13T08:00:00.000Z");
+    assert.equal(window.description, "last 7 days, no published edition yet");
+  });
+
+  it("rejects a since-last-edition run when the last edition reaches past now", () => {
+    useTimezone("UTC");
+    const now = new Date("2024-01-20T08:00:00.000Z");
+
+    assert.throws(
+      () => getReportingWindow(configWith({ mode: "since-last-edition" }), now, now),
+      /already covers up to 2024-01-20T08:00:00.000Z/
+    );
+  });
+});
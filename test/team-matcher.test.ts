@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { TeamMatcher } from '../src/team-matcher.js';
+
+describe('TeamMatcher', () => {
+  it('puts a repo in the matching team with the highest priority', () => {
+    const matcher = new TeamMatcher({
+      platform: { prefixes: ['api-'] },
+      payments: { globs: ['api-pay*'], priority: 10 }
+    });
+
+    assert.deepEqual(matcher.findTeams('acme', 'api-payments'), ['payments']);
+    assert.deepEqual(matcher.findTeams('acme', 'api-search'), ['platform']);
+  });
+
+  it('lets the team listed first win a priority tie', () => {
+    const matcher = new TeamMatcher({
+      web: { prefixes: ['web-'] },
+      design: { globs: ['web-*'] }
+    });
+
+    assert.deepEqual(matcher.findTeams('acme', 'web-app'), ['web']);
+  });
+
+  it('puts a repo in every matching team in "all" mode, best match first', () => {
+    const matcher = new TeamMatcher(
+      {
+        web: { prefixes: ['web-'] },
+        design: { globs: ['web-*'], priority: 5 },
+        mobile: { prefixes: ['ios-'] }
+      },
+      'all'
+    );
+
+    assert.deepEqual(matcher.findTeams('acme', 'web-app'), ['design', 'web']);
+  });
+
+  it('reports the most specific rule that matched within a team', () => {
+    const matcher = new TeamMatcher(
+      { platform: { repos: ['api-gateway'], prefixes: ['api-'], topics: ['platform'] } },
+      'best',
+      { organization: 'acme' }
+    );
+
+    const [match] = matcher.explain('acme', 'api-gateway', { topics: ['platform'] }).matches;
+    assert.equal(match.rule, 'repo');
+    assert.equal(matcher.explain('acme', 'api-users', { topics: ['platform'] }).matches[0].rule, 'prefix');
+    assert.equal(matcher.explain('acme', 'billing', { topics: ['platform'] }).matches[0].rule, 'topic');
+  });
+
+  it('never assigns a repo to a team that excludes it', () => {
+    const matcher = new TeamMatcher({
+      platform: { prefixes: ['api-'], exclude: ['api-legacy-*'] },
+      archive: { globs: ['*-legacy-*'] }
+    });
+
+    const explanation = matcher.explain('acme', 'api-legacy-auth');
+    assert.deepEqual(explanation.teams, ['archive']);
+    assert.deepEqual(explanation.excludedBy, [{ teamName: 'platform', value: 'api-legacy-*' }]);
+  });
+
+  it('only falls back to CODEOWNERS when no other rule matches', () => {
+    const matcher = new TeamMatcher({
+      platform: { prefixes: ['api-'] },
+      payments: { codeowners: ['@acme/payments'], priority: 10 }
+    });
+    const ownership = { codeowners: ['@Acme/Payments'] };
+
+    assert.deepEqual(matcher.findTeams('acme', 'api-ledger', ownership), ['platform']);
+    assert.deepEqual(matcher.findTeams('acme', 'ledger', ownership), ['payments']);
+  });
+
+  it('scopes owner-less repo names to the primary organization, ignoring case', () => {
+    const matcher = new TeamMatcher(
+      { platform: { repos: ['gateway', 'acme-labs/sandbox'] } },
+      'best',
+      { organization: 'acme' }
+    );
+
+    assert.deepEqual(matcher.findTeams('ACME', 'gateway'), ['platform']);
+    assert.deepEqual(matcher.findTeams('acme-labs', 'gateway'), []);
+    assert.deepEqual(matcher.findTeams('Acme-Labs', 'sandbox'), ['platform']);
+  });
+});